@@ -0,0 +1,318 @@
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+import Database from 'better-sqlite3';
+import { createHash } from 'crypto';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { initializeDatabase } from '../src/database/init.js';
+import { addCourtRulesTables } from '../src/database/add-court-rules.js';
+import { rebuildCitationGraph } from '../src/database/citation-graph.js';
+import { rebuildDefinitions } from '../src/database/definitions.js';
+import {
+  RCWScraper,
+  parseTitleLinks as parseRCWTitleLinks,
+  parseChapterLinks as parseRCWChapterLinks
+} from '../src/scraper/rcw-scraper.js';
+import {
+  WACScraper,
+  parseTitleLinks as parseWACTitleLinks,
+  parseChapterLinks as parseWACChapterLinks
+} from '../src/scraper/wac-scraper.js';
+import { CourtRulesScraper } from '../src/scraper/court-rules-scraper.js';
+import { COURT_RULE_SET_CONFIG, loadLocalRuleSets } from '../src/scraper/court-rule-sets.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const DB_PATH = join(__dirname, '../data/washington-laws.db');
+const RCW_URL = 'https://app.leg.wa.gov/RCW/';
+const WAC_URL = 'https://app.leg.wa.gov/WAC/';
+const DELAY_MS = 500;
+
+type Source = 'RCW' | 'WAC' | 'COURT_RULE';
+
+interface UpdateOptions {
+  // Record fingerprints without rescraping (use right after a full scrape)
+  baseline: boolean;
+  sources: Source[];
+}
+
+interface UpdateStats {
+  checked: number;
+  changed: number;
+  failed: number;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function sha256(data: string | Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Fingerprint only the page content, so changes to site chrome or scripts
+ * don't trigger a rescrape.
+ */
+function pageFingerprint(html: string): string {
+  const $ = cheerio.load(html);
+  $('script, style, nav, .navigation, .breadcrumb, .footer, .header, .menu').remove();
+  const content = $('#contentWrapper').length > 0 ? $('#contentWrapper') : $('body');
+  return sha256(content.text().replace(/\s+/g, ' ').trim());
+}
+
+function bumpVersion(version: string): string {
+  const parts = version.split('.').map(part => parseInt(part) || 0);
+  while (parts.length < 3) parts.push(0);
+  parts[2]++;
+  return parts.join('.');
+}
+
+class LawUpdater {
+  private db: Database.Database;
+  private getFingerprintStmt: Database.Statement;
+  private saveFingerprintStmt: Database.Statement;
+  private stats: Record<Source, UpdateStats> = {
+    RCW: { checked: 0, changed: 0, failed: 0 },
+    WAC: { checked: 0, changed: 0, failed: 0 },
+    COURT_RULE: { checked: 0, changed: 0, failed: 0 }
+  };
+
+  constructor(private options: UpdateOptions) {
+    initializeDatabase(DB_PATH).close();
+    addCourtRulesTables(DB_PATH);
+
+    this.db = new Database(DB_PATH);
+    this.getFingerprintStmt = this.db.prepare(`
+      SELECT fingerprint FROM source_fingerprints WHERE type = ? AND source_key = ?
+    `);
+    this.saveFingerprintStmt = this.db.prepare(`
+      INSERT OR REPLACE INTO source_fingerprints (type, source_key, fingerprint, checked_at)
+      VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+    `);
+  }
+
+  async run(): Promise<void> {
+    const startedAt = new Date().toISOString();
+    console.log(`Starting law update${this.options.baseline ? ' (baseline only)' : ''}...`);
+
+    try {
+      if (this.options.sources.includes('RCW')) {
+        await this.updateCode('RCW');
+      }
+      if (this.options.sources.includes('WAC')) {
+        await this.updateCode('WAC');
+      }
+      if (this.options.sources.includes('COURT_RULE')) {
+        await this.updateCourtRules();
+      }
+
+      this.rebuildDerivedTables();
+      this.recordUpdate(startedAt);
+      this.printStats();
+    } finally {
+      this.db.close();
+    }
+  }
+
+  /**
+   * Walk the RCW or WAC title/chapter listings and rescrape each chapter whose
+   * full-chapter page no longer matches the stored fingerprint. A listing
+   * that cannot be fetched counts as failed, and the walk moves on.
+   */
+  private async updateCode(type: 'RCW' | 'WAC'): Promise<void> {
+    console.log(`\nChecking ${type} for changes...`);
+
+    const indexUrl = type === 'RCW' ? RCW_URL : WAC_URL;
+    const scraper = type === 'RCW' ? new RCWScraper() : new WACScraper();
+
+    try {
+      let titles;
+      try {
+        const indexResponse = await axios.get(indexUrl);
+        titles = type === 'RCW'
+          ? parseRCWTitleLinks(indexResponse.data)
+          : parseWACTitleLinks(indexResponse.data);
+      } catch (error) {
+        console.error(`  Error listing ${type} titles:`, (error as Error).message);
+        this.stats[type].failed++;
+        return;
+      }
+
+      for (const title of titles) {
+        let chapters;
+        try {
+          const titleResponse = await axios.get(title.url);
+          chapters = type === 'RCW'
+            ? parseRCWChapterLinks(titleResponse.data, title.num)
+            : parseWACChapterLinks(titleResponse.data, title.num);
+        } catch (error) {
+          console.error(`  Error listing ${type} title ${title.num}:`, (error as Error).message);
+          this.stats[type].failed++;
+          continue;
+        }
+
+        for (const chapter of chapters) {
+          try {
+            const chapterResponse = await axios.get(`${chapter.url}&full=true`);
+            const fingerprint = pageFingerprint(chapterResponse.data);
+            this.stats[type].checked++;
+
+            if (this.isUnchanged(type, chapter.num, fingerprint)) continue;
+
+            if (!this.options.baseline) {
+              console.log(`  ${type} chapter ${chapter.num} changed, rescraping...`);
+              const ok = await scraper.scrapeChapter(title.num, title.name, chapter.num, chapter.name, chapter.url);
+
+              // Leave the old fingerprint in place so the next run retries
+              if (!ok) {
+                this.stats[type].failed++;
+                continue;
+              }
+              this.stats[type].changed++;
+            }
+
+            this.saveFingerprintStmt.run(type, chapter.num, fingerprint);
+          } catch (error) {
+            console.error(`  Error checking ${type} chapter ${chapter.num}:`, (error as Error).message);
+            this.stats[type].failed++;
+          }
+
+          await delay(DELAY_MS);
+        }
+      }
+    } finally {
+      scraper.close();
+    }
+  }
+
+  /**
+   * Court rules are published as one PDF per rule, so the PDF itself is the
+   * fingerprint source.
+   */
+  private async updateCourtRules(): Promise<void> {
+    console.log('\nChecking court rules for changes...');
+
+    const scraper = new CourtRulesScraper();
+
+    try {
+      for (const config of [...COURT_RULE_SET_CONFIG, ...loadLocalRuleSets()]) {
+        let rules;
+        try {
+          rules = await scraper.fetchRuleList(config);
+        } catch (error) {
+          console.error(`  Error listing ${config.ruleSet} rules:`, (error as Error).message);
+          this.stats.COURT_RULE.failed++;
+          continue;
+        }
+
+        for (const rule of rules) {
+          const key = `${rule.ruleSet} ${rule.ruleNumber}`;
+
+          try {
+            const pdf = await scraper.fetchRulePdf(rule);
+            const fingerprint = sha256(pdf);
+            this.stats.COURT_RULE.checked++;
+
+            if (this.isUnchanged('COURT_RULE', key, fingerprint)) continue;
+
+            if (!this.options.baseline) {
+              console.log(`  ${key} changed, reparsing...`);
+              await scraper.scrapeRule(rule, pdf);
+              this.stats.COURT_RULE.changed++;
+            }
+
+            this.saveFingerprintStmt.run('COURT_RULE', key, fingerprint);
+          } catch (error) {
+            console.error(`  Error checking ${key}:`, (error as Error).message);
+            this.stats.COURT_RULE.failed++;
+          }
+
+          await delay(DELAY_MS);
+        }
+      }
+    } finally {
+      scraper.close();
+    }
+  }
+
+  // Cross-references and definition scopes can reach across chapters, so
+  // these tables are rebuilt as a whole
+  private rebuildDerivedTables(): void {
+    const changed = Object.values(this.stats).some(s => s.changed > 0);
+    const isEmpty = (table: string) => !this.db.prepare(`SELECT 1 FROM ${table} LIMIT 1`).get();
+
+    if (changed || isEmpty('citations')) {
+      console.log('\nRebuilding citation graph...');
+      const stats = rebuildCitationGraph(this.db);
+      console.log(`  ${stats.references} cross-references from ${stats.sources} sections and rules`);
+    }
+
+    if (changed || isEmpty('definitions')) {
+      console.log('\nRebuilding definitions...');
+      const stats = rebuildDefinitions(this.db);
+      console.log(`  ${stats.definitions} definitions from ${stats.sections} sections`);
+    }
+  }
+
+  private isUnchanged(type: Source, key: string, fingerprint: string): boolean {
+    const stored = this.getFingerprintStmt.get(type, key) as { fingerprint: string } | undefined;
+    return stored?.fingerprint === fingerprint;
+  }
+
+  /**
+   * last_update is stamped with the start of the run, so every record written
+   * during the run is newer than it.
+   */
+  private recordUpdate(startedAt: string): void {
+    const changed = Object.values(this.stats).reduce((sum, s) => sum + s.changed, 0);
+    const current = this.db.prepare(`SELECT value FROM metadata WHERE key = 'version'`).get() as { value: string } | undefined;
+    const version = changed > 0 ? bumpVersion(current?.value || '1.0.0') : (current?.value || '1.0.0');
+
+    const setMetadata = this.db.prepare(`
+      INSERT OR REPLACE INTO metadata (key, value, updated_at) VALUES (?, ?, CURRENT_TIMESTAMP)
+    `);
+    this.db.transaction(() => {
+      setMetadata.run('last_update', startedAt);
+      setMetadata.run('version', version);
+    })();
+  }
+
+  private printStats(): void {
+    console.log('\n=== Law Update Complete ===');
+    for (const [type, stats] of Object.entries(this.stats)) {
+      if (stats.checked === 0 && stats.failed === 0) continue;
+      console.log(`  ${type}: ${stats.checked} checked, ${stats.changed} updated, ${stats.failed} failed`);
+    }
+
+    const version = this.db.prepare(`SELECT value FROM metadata WHERE key = 'version'`).get() as { value: string };
+    console.log(`  Database version: ${version.value}`);
+  }
+}
+
+function parseArgs(argv: string[]): UpdateOptions {
+  const options: UpdateOptions = {
+    baseline: argv.includes('--baseline'),
+    sources: ['RCW', 'WAC', 'COURT_RULE']
+  };
+
+  const only = argv.find(arg => arg.startsWith('--only='));
+  if (only) {
+    const names: Record<string, Source> = { rcw: 'RCW', wac: 'WAC', rules: 'COURT_RULE' };
+    options.sources = only.slice('--only='.length).split(',')
+      .map(name => names[name.trim().toLowerCase()])
+      .filter(Boolean);
+  }
+
+  return options;
+}
+
+// Run the update
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const updater = new LawUpdater(parseArgs(process.argv.slice(2)));
+  updater.run().catch(error => {
+    console.error('Update failed:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,235 @@
+import { splitPinpoint } from './subsections.js';
+
+export type CitationType = 'RCW' | 'WAC' | 'COURT_RULE';
+
+export interface ParsedCitation {
+  type: CitationType;
+  citation: string;           // bare section or rule number: "46.61.502", "296-24-12005", "3.2"
+  ruleSet?: string;           // court rules only, as stored in court_rules.rule_set: "CRRLJ"
+  path: string[];             // pinpoint subsections: "(1)(a)" -> ['1', 'a']
+  comment?: string;           // "RPC 1.7 cmt 3" -> "3"
+}
+
+/**
+ * Washington court rule sets, keyed by the upper-case form stored in
+ * court_rules.rule_set, with the abbreviation as the courts write it.
+ */
+export const COURT_RULE_SETS: Record<string, string> = {
+  GR: 'GR',
+  CR: 'CR',
+  CRR: 'CrR',
+  ER: 'ER',
+  RAP: 'RAP',
+  CRLJ: 'CRLJ',
+  CRRLJ: 'CrRLJ',
+  IRLJ: 'IRLJ',
+  RALJ: 'RALJ',
+  JUCR: 'JuCR',
+  MAR: 'MAR',
+  SPR: 'SPR',
+  RPC: 'RPC',
+  ELC: 'ELC',
+  APR: 'APR',
+  CJC: 'CJC'
+};
+
+const RCW_SECTION = /^\d+[A-Z]?\.\d+[A-Z]?\.\d+[A-Z]?$/i;
+const WAC_SECTION = /^\d+[A-Z]?-\d+[A-Z]?-\d+[A-Z]?$/i;
+const RULE_NUMBER = /^\d+(?:\.\d+)*[A-Z]?$/i;
+const COMMENT = /\s*,?\s*(?:cmts?\.?|comments?)\s*\[?(\d+)\]?$/i;
+
+function normalise(text: string): string {
+  return text
+    .replace(/\bR\.\s*C\.\s*W\.?/gi, 'RCW')
+    .replace(/\bW\.\s*A\.\s*C\.?/gi, 'WAC')
+    .replace(/§+/g, ' ')
+    .replace(/\b(?:sec(?:tion)?\.?|rule)\s+(?=\d)/gi, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[.,;]$/, '');
+}
+
+/**
+ * Recognise the ways people write Washington citations: "RCW 46.61.502",
+ * "R.C.W. § 46.61.502", "46.61.502 RCW", "WAC 296-24-12005", "CrRLJ 3.2",
+ * "RPC 1.7 cmt 3", with or without a "(1)(a)" pinpoint. A bare number is
+ * read as RCW or WAC from its shape. Returns null for anything else.
+ */
+export function parseCitation(text: string): ParsedCitation | null {
+  let rest = normalise(text);
+
+  let comment: string | undefined;
+  const commentMatch = rest.match(COMMENT);
+  if (commentMatch) {
+    comment = commentMatch[1];
+    rest = rest.slice(0, commentMatch.index).trim();
+  }
+
+  const { citation: base, path } = splitPinpoint(rest);
+
+  const coded = base.match(/^(RCW|WAC)\s*(\S+)$/i) || base.match(/^(\S+)\s+(RCW|WAC)$/i);
+  if (coded) {
+    const [code, number] = /^(RCW|WAC)$/i.test(coded[1]) ? [coded[1], coded[2]] : [coded[2], coded[1]];
+    const type = code.toUpperCase() as 'RCW' | 'WAC';
+    const pattern = type === 'RCW' ? RCW_SECTION : WAC_SECTION;
+    return pattern.test(number) && !comment ? { type, citation: number.toUpperCase(), path } : null;
+  }
+
+  const rule = base.match(/^([A-Za-z]+)\s*(\d\S*)$/);
+  if (rule) {
+    const ruleSet = rule[1].toUpperCase();
+    if (!COURT_RULE_SETS[ruleSet] || !RULE_NUMBER.test(rule[2])) return null;
+    return { type: 'COURT_RULE', citation: rule[2], ruleSet, path, comment };
+  }
+
+  if (comment) return null;
+  if (RCW_SECTION.test(base)) return { type: 'RCW', citation: base.toUpperCase(), path };
+  if (WAC_SECTION.test(base)) return { type: 'WAC', citation: base.toUpperCase(), path };
+  return null;
+}
+
+/**
+ * Recognise "chapter 46.20 RCW" or "chapter 296-24 WAC".
+ */
+export function parseChapterCitation(text: string): { type: 'RCW' | 'WAC'; chapter: string } | null {
+  const match = normalise(text).match(/^chapter\s+(\d+[A-Z]?[.-]\d+[A-Z]?)\s+(RCW|WAC)$/i);
+  if (!match) return null;
+
+  const type = match[2].toUpperCase() as 'RCW' | 'WAC';
+  const chapter = match[1].toUpperCase();
+  return (type === 'RCW') === chapter.includes('.') ? { type, chapter } : null;
+}
+
+// "17A" -> 17 then "A"
+function compareNumbered(a: string, b: string): number {
+  const [, aNumber, aSuffix] = a.match(/^(\d*)(.*)$/)!;
+  const [, bNumber, bSuffix] = b.match(/^(\d*)(.*)$/)!;
+  return (parseInt(aNumber) || 0) - (parseInt(bNumber) || 0) || aSuffix.localeCompare(bSuffix);
+}
+
+/**
+ * Order WAC titles, chapters and sections as the code is arranged. Titles
+ * and chapters go by number ("296-24" before "296-155", "296-17" before
+ * "296-17A"). Section numbers are decimal fractions, since a section added
+ * between two others extends the earlier one's number: "296-24-12005"
+ * follows "296-24-1200" and "296-24-120", and comes before "296-24-125".
+ */
+export function compareWACNumbers(a: string, b: string): number {
+  const aParts = a.toUpperCase().split('-');
+  const bParts = b.toUpperCase().split('-');
+
+  for (let i = 0; i < Math.min(aParts.length, bParts.length); i++) {
+    const order = i < 2
+      ? compareNumbered(aParts[i], bParts[i])
+      : aParts[i] < bParts[i] ? -1 : aParts[i] > bParts[i] ? 1 : 0;
+    if (order !== 0) return order;
+  }
+  return aParts.length - bParts.length;
+}
+
+/**
+ * Write a parsed citation back out in its usual form, e.g. "CrRLJ 3.2" or
+ * "RCW 46.61.502(1)(a)".
+ */
+export function formatCitation(parsed: ParsedCitation): string {
+  const pinpoint = parsed.path.map(label => `(${label})`).join('');
+  const code = parsed.type === 'COURT_RULE'
+    ? COURT_RULE_SETS[parsed.ruleSet!] || parsed.ruleSet
+    : parsed.type;
+  return `${code} ${parsed.citation}${pinpoint}${parsed.comment ? ` cmt ${parsed.comment}` : ''}`;
+}
+
+export interface CitationReference {
+  type: CitationType;
+  kind: 'section' | 'chapter' | 'title' | 'rule';
+  citation: string;           // "9A.04.110", "46.20", "46" or "RPC 1.7"
+  context: string;            // the text around the reference
+}
+
+const RCW_NUM = String.raw`\d+[A-Z]?\.\d+[A-Z]?\.\d+[A-Z]?`;
+const WAC_NUM = String.raw`\d+[A-Z]?-\d+[A-Z]?-\d+[A-Z]?`;
+const RCW_CHAPTER = String.raw`\d+[A-Z]?\.\d+[A-Z]?`;
+const WAC_CHAPTER = String.raw`\d+[A-Z]?-\d+[A-Z]?`;
+const PINPOINT = String.raw`(?:\s?\([0-9A-Za-z]{1,5}\))*`;
+const LIST_SEPARATOR = String.raw`(?:\s*,\s*(?:and\s+|or\s+)?|\s+(?:and|or|through)\s+)`;
+
+// "RCW 46.61.502, 46.61.504, or 46.61.520" names three sections
+function listOf(number: string, repeatedPrefix: string = ''): string {
+  return `${number}${PINPOINT}(?:${LIST_SEPARATOR}${repeatedPrefix}${number}${PINPOINT})*`;
+}
+
+const REFERENCE_PATTERNS: Array<{ type: CitationType; kind: CitationReference['kind']; pattern: RegExp; number: RegExp }> = [
+  { type: 'RCW', kind: 'section', pattern: new RegExp(String.raw`\bRCW\s+${listOf(RCW_NUM, '(?:RCW\\s+)?')}`, 'g'), number: new RegExp(RCW_NUM, 'g') },
+  { type: 'WAC', kind: 'section', pattern: new RegExp(String.raw`\bWAC\s+${listOf(WAC_NUM, '(?:WAC\\s+)?')}`, 'g'), number: new RegExp(WAC_NUM, 'g') },
+  { type: 'RCW', kind: 'chapter', pattern: new RegExp(String.raw`\bchapters?\s+${listOf(RCW_CHAPTER)}\s+RCW\b`, 'gi'), number: new RegExp(RCW_CHAPTER, 'g') },
+  { type: 'WAC', kind: 'chapter', pattern: new RegExp(String.raw`\bchapters?\s+${listOf(WAC_CHAPTER)}\s+WAC\b`, 'gi'), number: new RegExp(WAC_CHAPTER, 'g') },
+  { type: 'RCW', kind: 'title', pattern: /\btitles?\s+\d+[A-Z]?(?:(?:\s*,\s*(?:and\s+|or\s+)?|\s+(?:and|or)\s+)\d+[A-Z]?)*\s+RCW\b/gi, number: /\d+[A-Z]?/g },
+  { type: 'WAC', kind: 'title', pattern: /\btitles?\s+\d+[A-Z]?(?:(?:\s*,\s*(?:and\s+|or\s+)?|\s+(?:and|or)\s+)\d+[A-Z]?)*\s+WAC\b/gi, number: /\d+[A-Z]?/g }
+];
+
+// Court rules are only recognised by the abbreviation the courts use, so
+// words such as "MAR" in capitals are not mistaken for rules
+const RULE_REFERENCE = new RegExp(
+  String.raw`\b(${Object.values(COURT_RULE_SETS).sort((a, b) => b.length - a.length).join('|')})\s+(\d+(?:\.\d+)*[A-Z]?)\b`,
+  'g'
+);
+
+function contextAround(text: string, start: number, end: number): string {
+  const lineStart = text.lastIndexOf('\n', start) + 1;
+  const lineEnd = text.indexOf('\n', end);
+  const line = text.slice(lineStart, lineEnd === -1 ? text.length : lineEnd);
+  const from = Math.max(0, start - lineStart - 100);
+  const to = Math.min(line.length, end - lineStart + 100);
+  return `${from > 0 ? '…' : ''}${line.slice(from, to).trim()}${to < line.length ? '…' : ''}`;
+}
+
+/**
+ * Find every cross-reference in a section or rule: "as defined in RCW
+ * 9A.04.110", "under chapter 46.20 RCW", "Title 51 RCW", "WAC 296-24-130",
+ * "CrRLJ 3.2". Each referenced section is returned once, with the text
+ * around its first mention.
+ */
+export function extractCitations(text: string): CitationReference[] {
+  const references = new Map<string, CitationReference>();
+  const add = (reference: CitationReference) => {
+    const key = `${reference.type}|${reference.kind}|${reference.citation}`;
+    if (!references.has(key)) references.set(key, reference);
+  };
+
+  for (const { type, kind, pattern, number } of REFERENCE_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const context = contextAround(text, match.index!, match.index! + match[0].length);
+      // Strip the pinpoints so "(1)(a)" isn't read as a number
+      const numbers = match[0].replace(/\([0-9A-Za-z]{1,5}\)/g, ' ').replace(/^\S+\s+/, '');
+      for (const num of numbers.matchAll(number)) {
+        add({ type, kind, citation: num[0].toUpperCase(), context });
+      }
+    }
+  }
+
+  for (const match of text.matchAll(RULE_REFERENCE)) {
+    const ruleSet = match[1].toUpperCase();
+    add({
+      type: 'COURT_RULE',
+      kind: 'rule',
+      citation: `${ruleSet} ${match[2]}`,
+      context: contextAround(text, match.index!, match.index! + match[0].length)
+    });
+  }
+
+  return [...references.values()];
+}
+
+/**
+ * Write a stored reference the way it appears in text: "RCW 9A.04.110",
+ * "chapter 46.20 RCW", "Title 51 RCW" or "CrRLJ 3.2".
+ */
+export function formatReference(type: CitationType, kind: CitationReference['kind'], citation: string): string {
+  if (type === 'COURT_RULE') {
+    const [ruleSet, ...number] = citation.split(' ');
+    return `${COURT_RULE_SETS[ruleSet] || ruleSet} ${number.join(' ')}`;
+  }
+  if (kind === 'chapter') return `chapter ${citation} ${type}`;
+  if (kind === 'title') return `Title ${citation} ${type}`;
+  return `${type} ${citation}`;
+}
@@ -1,14 +1,15 @@
 import Database from 'better-sqlite3';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import { addColumnIfMissing, addSectionVersions, createFtsTable } from './init.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 const DB_PATH = join(__dirname, '../../data/washington-laws.db');
 
-export function addCourtRulesTables(): void {
-  const db = new Database(DB_PATH);
+export function addCourtRulesTables(dbPath: string = DB_PATH): void {
+  const db = new Database(dbPath);
   
   // Create court_rules table for IRLJ, CRLJ, etc.
   db.exec(`
@@ -17,7 +18,9 @@ export function addCourtRulesTables(): void {
       rule_set TEXT NOT NULL,      -- 'IRLJ', 'CRLJ', etc.
       rule_number TEXT NOT NULL,    -- '1.1', '2.4', etc.
       rule_name TEXT,               -- 'Scope and Purpose of Rules'
-      full_text TEXT NOT NULL,
+      full_text TEXT NOT NULL,      -- the rule alone
+      comments TEXT,                -- JSON: [{ number, text }], cited as "RPC 1.7 cmt 8"
+      history_note TEXT,            -- 'Adopted effective ...; Amended effective ...'
       effective_date TEXT,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
@@ -27,18 +30,11 @@ export function addCourtRulesTables(): void {
     CREATE INDEX IF NOT EXISTS idx_court_rules_set ON court_rules(rule_set);
     CREATE INDEX IF NOT EXISTS idx_court_rules_number ON court_rules(rule_number);
   `);
+  addColumnIfMissing(db, 'court_rules', 'comments', 'TEXT');
+  addColumnIfMissing(db, 'court_rules', 'history_note', 'TEXT');
 
   // Create FTS5 virtual table for court rules
-  db.exec(`
-    CREATE VIRTUAL TABLE IF NOT EXISTS court_rules_fts USING fts5(
-      rule_set,
-      rule_number,
-      rule_name,
-      full_text,
-      content=court_rules,
-      content_rowid=id
-    );
-  `);
+  createFtsTable(db, 'court_rules_fts', 'court_rules', ['rule_set', 'rule_number', 'rule_name', 'full_text']);
 
   // Create triggers to keep FTS table in sync
   db.exec(`
@@ -58,6 +54,9 @@ export function addCourtRulesTables(): void {
     END;
   `);
 
+  // Record rule text history alongside RCW and WAC sections
+  addSectionVersions(db);
+
   console.log('Court rules tables created successfully');
   db.close();
 }
@@ -0,0 +1,99 @@
+import Database from 'better-sqlite3';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { CitationType, extractCitations } from '../citations.js';
+import { inEffect, initializeDatabase } from './init.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const DB_PATH = join(__dirname, '../../data/washington-laws.db');
+const BATCH_SIZE = 1000;
+
+interface Source {
+  type: CitationType;
+  // Selects id, citation and text, for rows with id > ?
+  query: string;
+}
+
+const SOURCES: Source[] = [
+  // Of a section's two texts, the one in effect today; the other would replace its references
+  {
+    type: 'RCW',
+    query: `SELECT id, citation, full_text as text FROM rcw
+      WHERE id > ? AND (variant = '' OR ${inEffect(`date('now')`)}) ORDER BY id LIMIT ${BATCH_SIZE}`
+  },
+  { type: 'WAC', query: `SELECT id, citation, full_text as text FROM wac WHERE id > ? ORDER BY id LIMIT ${BATCH_SIZE}` },
+  {
+    type: 'COURT_RULE',
+    query: `SELECT id, rule_set || ' ' || rule_number as citation, full_text as text FROM court_rules WHERE id > ? ORDER BY id LIMIT ${BATCH_SIZE}`
+  }
+];
+
+function tableExists(db: Database.Database, table: string): boolean {
+  return !!db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`).get(table);
+}
+
+/**
+ * Replace the stored cross-references of one section or rule. Court rules
+ * are keyed as "RPC 1.7".
+ */
+export function indexCitations(db: Database.Database, fromType: CitationType, fromCitation: string, text: string): number {
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO citations (from_type, from_citation, to_type, to_kind, to_citation, context)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+
+  db.prepare('DELETE FROM citations WHERE from_type = ? AND from_citation = ?').run(fromType, fromCitation);
+
+  let count = 0;
+  for (const reference of extractCitations(text)) {
+    // A section restating its own number is not a cross-reference
+    if (reference.type === fromType && reference.citation === fromCitation) continue;
+    insert.run(fromType, fromCitation, reference.type, reference.kind, reference.citation, reference.context);
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Rebuild the whole citation graph from rcw, wac and court_rules full text.
+ */
+export function rebuildCitationGraph(db: Database.Database): { sources: number; references: number } {
+  const stats = { sources: 0, references: 0 };
+
+  db.transaction(() => {
+    db.exec('DELETE FROM citations');
+
+    for (const source of SOURCES) {
+      const table = source.type === 'COURT_RULE' ? 'court_rules' : source.type.toLowerCase();
+      if (!tableExists(db, table)) continue;
+
+      // Read in batches so the full corpus never sits in memory at once
+      const select = db.prepare(source.query);
+      let lastId = 0;
+      while (true) {
+        const rows = select.all(lastId) as Array<{ id: number; citation: string; text: string }>;
+        if (rows.length === 0) break;
+
+        for (const row of rows) {
+          stats.references += indexCitations(db, source.type, row.citation, row.text || '');
+          stats.sources++;
+        }
+        lastId = rows[rows.length - 1].id;
+      }
+      console.log(`  ${source.type}: citations indexed`);
+    }
+  })();
+
+  return stats;
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const db = initializeDatabase(DB_PATH);
+  console.log('Building citation graph...');
+  const stats = rebuildCitationGraph(db);
+  console.log(`Indexed ${stats.references} cross-references from ${stats.sources} sections and rules`);
+  db.close();
+}
@@ -1,25 +1,61 @@
 import Database from 'better-sqlite3';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
-import { RCWSection, WACSection, SearchResult } from '../types.js';
+import { RCWSection, WACSection, CourtRule, SearchOptions, SearchPage, SearchResult, SemanticResult, Subsection, CitationEdge, Definition, SectionVersion, SectionChange } from '../types.js';
+import { splitPinpoint } from '../subsections.js';
+import { compareWACNumbers, parseChapterCitation, parseCitation } from '../citations.js';
+import { INACTIVE_STATUSES } from '../status.js';
+import { inEffect } from './init.js';
+import { blobToVector, cosineSimilarity } from '../embeddings.js';
+import { STOPWORDS, anyTermQuery, expandQuery, plainQuery, translateQuery } from '../search-query.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 const DB_PATH = join(__dirname, '../../data/washington-laws.db');
 
+// bm25 column weights: citation, title, chapter and catchline count for more
+// than a match in the body. bm25 is lower for better matches.
+const SECTION_WEIGHTS = '10.0, 2.0, 3.0, 5.0, 1.0';   // citation, title_name, chapter_name, section_name, full_text
+const RULE_WEIGHTS = '10.0, 10.0, 5.0, 1.0';          // rule_set, rule_number, rule_name, full_text
+
+// Reciprocal rank fusion constant; larger values flatten the advantage of the top ranks
+const RRF_K = 60;
+
+// How many of a section's most distinctive terms find_similar searches for
+const SIMILAR_TERMS = 25;
+
+// Full-text indexes and the tables they index, for term statistics
+const FTS_CORPORA = [['rcw_fts', 'rcw'], ['wac_fts', 'wac'], ['court_rules_fts', 'court_rules']];
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function sectionNumber(citation: string, type: 'RCW' | 'WAC'): string {
+  const parsed = parseCitation(citation);
+  return parsed?.type === type ? parsed.citation : splitPinpoint(citation).citation;
+}
+
 export class LawDatabase {
   private db: Database.Database;
 
-  constructor() {
-    this.db = new Database(DB_PATH, { readonly: true });
+  constructor(dbPath: string = DB_PATH) {
+    this.db = new Database(dbPath, { readonly: true });
     this.db.pragma('journal_mode = WAL');
   }
 
-  getRCW(citation: string): RCWSection | null {
+  /**
+   * "RCW 9A.36.021(1)(c)" and other written forms resolve to the section.
+   * When the section has two texts, the one in effect on `date` (default
+   * today) is returned, with the later one noted as pendingVersion.
+   */
+  getRCW(citation: string, date: string = today()): RCWSection | null {
+    citation = sectionNumber(citation, 'RCW');
     const stmt = this.db.prepare(`
       SELECT 
         citation,
+        variant,
         title_num as titleNum,
         chapter_num as chapterNum,
         section_num as sectionNum,
@@ -27,17 +63,35 @@ export class LawDatabase {
         chapter_name as chapterName,
         section_name as sectionName,
         full_text as fullText,
+        subsections,
+        history_note as historyNote,
+        notes,
+        status,
+        status_target as statusTarget,
+        status_note as statusNote,
         effective_date as effectiveDate,
+        effective_until as effectiveUntil,
         last_amended as lastAmended
       FROM rcw
-      WHERE citation = ?
+      WHERE citation = @citation
+      ORDER BY (${inEffect('@date')}) DESC, effective_date DESC
     `);
 
-    const result = stmt.get(citation) as RCWSection | undefined;
-    return result || null;
+    const rows = stmt.all({ citation, date }) as any[];
+    if (rows.length === 0) return null;
+
+    const section = this.withSubsections<RCWSection>(rows[0]);
+    section.variant = rows[0].variant || undefined;
+    section.effectiveUntil = rows[0].effectiveUntil || undefined;
+    const pending = rows.find(row => row.variant.startsWith('from ') && row.effectiveDate > date);
+    if (pending && pending !== rows[0]) {
+      section.pendingVersion = { sectionName: pending.sectionName || undefined, effectiveDate: pending.effectiveDate };
+    }
+    return section;
   }
 
   getWAC(citation: string): WACSection | null {
+    citation = sectionNumber(citation, 'WAC');
     const stmt = this.db.prepare(`
       SELECT 
         citation,
@@ -48,16 +102,22 @@ export class LawDatabase {
         chapter_name as chapterName,
         section_name as sectionName,
         full_text as fullText,
+        subsections,
+        history_note as historyNote,
+        notes,
+        status,
+        status_target as statusTarget,
+        status_note as statusNote,
         effective_date as effectiveDate
       FROM wac
       WHERE citation = ?
     `);
 
-    const result = stmt.get(citation) as WACSection | undefined;
-    return result || null;
+    const result = stmt.get(citation) as any;
+    return result ? this.withSubsections<WACSection>(result) : null;
   }
 
-  getCourtRule(ruleSet: string, ruleNumber: string): any | null {
+  getCourtRule(ruleSet: string, ruleNumber: string): CourtRule | null {
     // First try exact match
     let stmt = this.db.prepare(`
       SELECT 
@@ -65,19 +125,35 @@ export class LawDatabase {
         rule_number as ruleNumber,
         rule_name as ruleName,
         full_text as fullText,
+        comments,
+        history_note as historyNote,
+        effective_date as effectiveDate,
         updated_at as updatedAt
       FROM court_rules
       WHERE rule_set = ? AND rule_number = ?
     `);
 
-    let result = stmt.get(ruleSet, ruleNumber);
+    let result = stmt.get(ruleSet, ruleNumber) as any;
     
     // If no exact match and number doesn't contain a decimal, try adding .0
     if (!result && !ruleNumber.includes('.')) {
       result = stmt.get(ruleSet, ruleNumber + '.0');
     }
     
-    return result || null;
+    if (!result) return null;
+    return {
+      ...result,
+      comments: result.comments ? JSON.parse(result.comments) : [],
+      historyNote: result.historyNote || undefined,
+      effectiveDate: result.effectiveDate || undefined
+    };
+  }
+
+  // The rule sets that have been scraped, as stored: "CRR", "RPC", ...
+  listRuleSets(): string[] {
+    if (!this.hasTable('court_rules')) return [];
+    const rows = this.db.prepare('SELECT DISTINCT rule_set as ruleSet FROM court_rules ORDER BY rule_set').all() as Array<{ ruleSet: string }>;
+    return rows.map(row => row.ruleSet);
   }
 
   listCourtRules(ruleSet?: string): Array<{ ruleSet: string; ruleNumber: string; ruleName: string }> {
@@ -109,103 +185,244 @@ export class LawDatabase {
     }
   }
 
-  searchLaws(query: string, limit: number = 20): SearchResult[] {
-    const results: SearchResult[] = [];
-    const perTypeLimit = Math.floor(limit / 3);
+  searchLaws(query: string, options: SearchOptions = {}): SearchResult[] {
+    return this.searchLawsPage(query, options).results;
+  }
 
-    // Search RCW
-    const rcwStmt = this.db.prepare(`
-      SELECT 
-        r.citation,
-        r.title_name as titleName,
-        r.chapter_name as chapterName,
-        r.section_name as sectionName,
-        snippet(rcw_fts, 4, '<b>', '</b>', '...', 64) as snippet,
-        rank as score
-      FROM rcw_fts
-      JOIN rcw r ON rcw_fts.rowid = r.id
-      WHERE rcw_fts MATCH ?
-      ORDER BY rank
-      LIMIT ?
-    `);
+  /**
+   * Full-text search across RCW, WAC and court rules, ranked together by
+   * bm25 with headings weighted over body text. Repealed, recodified and
+   * expired sections are left out unless includeInactive is set, and of an
+   * RCW section with two texts only the one in effect today is searched. The
+   * filters are part of each FTS query, so they never cut into the results:
+   * title and chapter apply to RCW and WAC, ruleSet to court rules, and a
+   * corpus without the filtered field is not searched. The query is
+   * translated to safe FTS5 syntax, with abbreviations such as "DUI" also
+   * searched under their other forms unless expandSynonyms is false. If FTS5
+   * still rejects it, its words are searched as plain terms. With matchAny,
+   * any of the query's words will do.
+   */
+  searchLawsPage(query: string, options: SearchOptions = {}): SearchPage {
+    const { limit = 20, offset = 0, includeInactive = false } = options;
+    const inactive = INACTIVE_STATUSES.map(status => `'${status}'`).join(', ');
+    const chapter = options.chapter ? parseChapterCitation(options.chapter)?.chapter || options.chapter.trim().toUpperCase() : undefined;
 
-    const rcwResults = rcwStmt.all(query, perTypeLimit) as any[];
-    for (const row of rcwResults) {
-      results.push({
-        type: 'RCW',
-        citation: row.citation,
-        titleName: row.titleName,
-        chapterName: row.chapterName,
-        sectionName: row.sectionName,
-        snippet: row.snippet,
-        score: Math.abs(row.score)
-      });
-    }
+    const searched = (type: 'RCW' | 'WAC' | 'COURT_RULE') => {
+      if (options.types && options.types.length > 0 && !options.types.includes(type)) return false;
+      if (type === 'COURT_RULE') return !options.title && !chapter && this.hasTable('court_rules_fts');
+      if (options.ruleSet) return false;
+      // "46.61" can only be an RCW chapter and "296-24" a WAC one
+      return !chapter || chapter.includes(type === 'RCW' ? '.' : '-');
+    };
 
-    // Search WAC
-    const wacStmt = this.db.prepare(`
-      SELECT 
-        w.citation,
-        w.title_name as titleName,
-        w.chapter_name as chapterName,
-        w.section_name as sectionName,
-        snippet(wac_fts, 4, '<b>', '</b>', '...', 64) as snippet,
-        rank as score
-      FROM wac_fts
-      JOIN wac w ON wac_fts.rowid = w.id
-      WHERE wac_fts MATCH ?
-      ORDER BY rank
-      LIMIT ?
-    `);
+    const { ftsQuery, expansions } = options.matchAny
+      ? { ftsQuery: anyTermQuery(query), expansions: [] }
+      : options.expandSynonyms === false
+        ? { ftsQuery: translateQuery(query), expansions: [] }
+        : expandQuery(query);
+    const selects: string[] = [];
+    const params: unknown[] = [];
+    const queryParams: number[] = [];   // positions of the MATCH arguments
 
-    const wacResults = wacStmt.all(query, perTypeLimit) as any[];
-    for (const row of wacResults) {
-      results.push({
-        type: 'WAC',
-        citation: row.citation,
-        titleName: row.titleName,
-        chapterName: row.chapterName,
-        sectionName: row.sectionName,
-        snippet: row.snippet,
-        score: Math.abs(row.score)
-      });
+    for (const type of ['RCW', 'WAC'] as const) {
+      if (!searched(type)) continue;
+      const table = type.toLowerCase();
+
+      const conditions: string[] = [];
+      if (!includeInactive) conditions.push(`s.status NOT IN (${inactive})`);
+      queryParams.push(params.push(ftsQuery) - 1);
+      if (type === 'RCW') {
+        // Of a section's two texts, only the one in effect today
+        conditions.push(inEffect('?', 's'));
+        params.push(today(), today());
+      }
+      if (options.title) {
+        conditions.push('s.title_num = ?');
+        params.push(options.title.trim().toUpperCase());
+      }
+      if (chapter) {
+        conditions.push('s.chapter_num = ?');
+        params.push(chapter);
+      }
+
+      selects.push(`
+        SELECT 
+          '${type}' as type,
+          s.citation as citation,
+          s.title_name as titleName,
+          s.chapter_name as chapterName,
+          s.section_name as sectionName,
+          s.status as status,
+          snippet(${table}_fts, 4, '<b>', '</b>', '...', 64) as snippet,
+          bm25(${table}_fts, ${SECTION_WEIGHTS}) as score
+        FROM ${table}_fts
+        JOIN ${table} s ON ${table}_fts.rowid = s.id
+        WHERE ${table}_fts MATCH ?${conditions.map(condition => ` AND ${condition}`).join('')}
+      `);
     }
 
-    // Search Court Rules
-    try {
-      const courtRulesStmt = this.db.prepare(`
+    if (searched('COURT_RULE')) {
+      queryParams.push(params.push(ftsQuery) - 1);
+      if (options.ruleSet) params.push(options.ruleSet.trim().toUpperCase());
+
+      selects.push(`
         SELECT 
+          'Court Rule' as type,
           cr.rule_set || ' ' || cr.rule_number as citation,
           cr.rule_set as titleName,
+          '' as chapterName,
           cr.rule_name as sectionName,
+          NULL as status,
           snippet(court_rules_fts, 3, '<b>', '</b>', '...', 64) as snippet,
-          rank as score
+          bm25(court_rules_fts, ${RULE_WEIGHTS}) as score
         FROM court_rules_fts
         JOIN court_rules cr ON court_rules_fts.rowid = cr.id
-        WHERE court_rules_fts MATCH ?
-        ORDER BY rank
-        LIMIT ?
+        WHERE court_rules_fts MATCH ?${options.ruleSet ? ' AND cr.rule_set = ?' : ''}
       `);
+    }
 
-      const courtResults = courtRulesStmt.all(query, perTypeLimit) as any[];
-      for (const row of courtResults) {
-        results.push({
-          type: 'Court Rule' as any,
-          citation: row.citation,
-          titleName: row.titleName,
-          chapterName: '',
-          sectionName: row.sectionName,
-          snippet: row.snippet,
-          score: Math.abs(row.score)
-        });
+    if (selects.length === 0 || limit <= 0 || !ftsQuery) return { results: [], offset, ftsQuery };
+
+    // One row past the page tells whether another page follows
+    const stmt = this.db.prepare(`
+      ${selects.join(' UNION ALL ')}
+      ORDER BY score, type, citation
+      LIMIT ? OFFSET ?
+    `);
+
+    let rows: any[];
+    let page: Pick<SearchPage, 'ftsQuery' | 'fallback' | 'expansions'> = {
+      ftsQuery,
+      ...(expansions.length > 0 ? { expansions } : {})
+    };
+    try {
+      rows = stmt.all(...params, limit + 1, offset) as any[];
+    } catch (error) {
+      const plain = plainQuery(query);
+      if (!plain || plain === ftsQuery) throw error;
+      queryParams.forEach(i => { params[i] = plain; });
+      rows = stmt.all(...params, limit + 1, offset) as any[];
+      page = { ftsQuery: plain, fallback: true };
+    }
+
+    const results: SearchResult[] = rows.slice(0, limit).map(row => ({
+      type: row.type,
+      citation: row.citation,
+      titleName: row.titleName,
+      chapterName: row.chapterName,
+      sectionName: row.sectionName,
+      snippet: row.snippet,
+      score: -row.score,
+      ...(row.status ? { status: row.status } : {})
+    }));
+
+    return { results, offset, ...(rows.length > limit ? { nextOffset: offset + limit } : {}), ...page };
+  }
+
+  countEmbeddings(model: string): number {
+    const row = this.db.prepare('SELECT COUNT(*) as count FROM embeddings WHERE model = ?').get(model) as { count: number };
+    return row.count;
+  }
+
+  /**
+   * Hybrid search for plain-English questions. Sections are ranked once by
+   * the similarity of their best passage (the whole section or one of its
+   * subsections) to `vector`, the question embedded with `model`, and once by
+   * bm25 over the question's words; the two rankings are merged by
+   * reciprocal rank fusion.
+   */
+  semanticSearch(
+    query: string,
+    vector: Float32Array,
+    model: string,
+    options: { limit?: number; types?: SearchOptions['types'] } = {}
+  ): SemanticResult[] {
+    const { limit = 10 } = options;
+    const candidates = Math.max(limit * 5, 50);
+    const types = options.types && options.types.length > 0 ? options.types : undefined;
+    const key = (type: string, citation: string) => `${type}|${citation}`;
+
+    // Vectors are scanned one row at a time, keeping each section's best passage
+    const best = new Map<string, { type: SemanticResult['type']; citation: string; path: string; similarity: number }>();
+    const rows = this.db.prepare(`
+      SELECT type, citation, path, vector FROM embeddings
+      WHERE model = ?${types ? ` AND type IN (${types.map(() => '?').join(', ')})` : ''}
+    `).iterate(model, ...(types || [])) as Iterable<{ type: SemanticResult['type']; citation: string; path: string; vector: Buffer }>;
+    for (const row of rows) {
+      const similarity = cosineSimilarity(vector, blobToVector(row.vector));
+      const current = best.get(key(row.type, row.citation));
+      if (!current || similarity > current.similarity) {
+        best.set(key(row.type, row.citation), { type: row.type, citation: row.citation, path: row.path, similarity });
       }
-    } catch (e) {
-      // Court rules table might not exist in older databases
     }
 
-    // Sort combined results by score
-    results.sort((a, b) => (b.score || 0) - (a.score || 0));
-    return results.slice(0, limit);
+    const merged = new Map<string, SemanticResult>();
+    [...best.values()]
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, candidates)
+      .forEach((hit, i) => {
+        merged.set(key(hit.type, hit.citation), {
+          type: hit.type,
+          citation: hit.citation,
+          ...(hit.path ? { path: hit.path } : {}),
+          similarity: hit.similarity,
+          vectorRank: i + 1,
+          score: 1 / (RRF_K + i + 1)
+        });
+      });
+
+    this.searchLawsPage(query, { limit: candidates, matchAny: true, types }).results.forEach((result, i) => {
+      const type = result.type === 'Court Rule' ? 'COURT_RULE' : result.type;
+      const entry = merged.get(key(type, result.citation)) || { type, citation: result.citation, score: 0 };
+      entry.keywordRank = i + 1;
+      entry.score += 1 / (RRF_K + i + 1);
+      entry.sectionName = result.sectionName || undefined;
+      entry.snippet = result.snippet;
+      merged.set(key(type, result.citation), entry);
+    });
+
+    const results = [...merged.values()].sort((a, b) => b.score - a.score).slice(0, limit);
+    for (const result of results) {
+      if (!result.sectionName) result.sectionName = this.sectionName(result.type, result.citation);
+    }
+    return results;
+  }
+
+  /**
+   * Sections and court rules whose text is most like the given one. The
+   * source's terms are weighted by tf-idf against the full-text indexes, and
+   * its most distinctive ones are searched for together, so bm25 ranks
+   * highest what shares the most of them. Returns null when the source is
+   * not in the database.
+   */
+  findSimilar(
+    type: SemanticResult['type'],
+    citation: string,
+    options: { limit?: number; types?: SearchOptions['types'] } = {}
+  ): { terms: string[]; results: SearchResult[] } | null {
+    const { limit = 10 } = options;
+
+    let source: { name?: string | null; text?: string | null } | null;
+    if (type === 'COURT_RULE') {
+      const [ruleSet, ...number] = citation.split(' ');
+      const rule = this.hasTable('court_rules') ? this.getCourtRule(ruleSet, number.join(' ')) : null;
+      if (rule) citation = `${rule.ruleSet} ${rule.ruleNumber}`;
+      source = rule && { name: rule.ruleName, text: rule.fullText };
+    } else {
+      const section = type === 'RCW' ? this.getRCW(citation) : this.getWAC(citation);
+      if (section) citation = section.citation;
+      source = section && { name: section.sectionName, text: section.fullText };
+    }
+    if (!source) return null;
+
+    const terms = this.termVector(`${source.name || ''}\n${source.text || ''}`).map(term => term.word);
+    if (terms.length === 0) return { terms, results: [] };
+
+    const resultType = type === 'COURT_RULE' ? 'Court Rule' : type;
+    const results = this.searchLawsPage(terms.join(' '), { limit: limit + 1, matchAny: true, types: options.types }).results
+      .filter(result => !(result.type === resultType && result.citation === citation))
+      .slice(0, limit);
+    return { terms, results };
   }
 
   listRCWTitles(): Array<{ titleNum: string; titleName: string; count: number }> {
@@ -213,7 +430,7 @@ export class LawDatabase {
       SELECT 
         title_num as titleNum,
         title_name as titleName,
-        COUNT(*) as count
+        COUNT(DISTINCT citation) as count
       FROM rcw
       GROUP BY title_num, title_name
       ORDER BY CAST(title_num AS INTEGER), title_num
@@ -227,7 +444,7 @@ export class LawDatabase {
       SELECT 
         chapter_num as chapterNum,
         chapter_name as chapterName,
-        COUNT(*) as count
+        COUNT(DISTINCT citation) as count
       FROM rcw
       WHERE title_num = ?
       GROUP BY chapter_num, chapter_name
@@ -237,23 +454,236 @@ export class LawDatabase {
     return stmt.all(titleNum) as any[];
   }
 
+  // Sections with two texts are listed once, under the catchline in effect
   listRCWSections(chapterNum: string): Array<{ citation: string; sectionName: string }> {
+    const stmt = this.db.prepare(`
+      SELECT citation, sectionName FROM (
+        SELECT 
+          citation,
+          section_name as sectionName,
+          ROW_NUMBER() OVER (
+            PARTITION BY citation ORDER BY (${inEffect('@date')}) DESC, effective_date DESC
+          ) as variantRank
+        FROM rcw
+        WHERE chapter_num = @chapterNum
+      )
+      WHERE variantRank = 1
+      ORDER BY citation
+    `);
+
+    return stmt.all({ chapterNum, date: today() }) as any[];
+  }
+
+  // WAC numbering does not sort as text, so the lists are ordered by compareWACNumbers
+  listWACTitles(): Array<{ titleNum: string; titleName: string; count: number }> {
+    const stmt = this.db.prepare(`
+      SELECT 
+        title_num as titleNum,
+        title_name as titleName,
+        COUNT(*) as count
+      FROM wac
+      GROUP BY title_num, title_name
+    `);
+
+    const titles = stmt.all() as Array<{ titleNum: string; titleName: string; count: number }>;
+    return titles.sort((a, b) => compareWACNumbers(a.titleNum, b.titleNum));
+  }
+
+  listWACChapters(titleNum: string): Array<{ chapterNum: string; chapterName: string; count: number }> {
+    const stmt = this.db.prepare(`
+      SELECT 
+        chapter_num as chapterNum,
+        chapter_name as chapterName,
+        COUNT(*) as count
+      FROM wac
+      WHERE title_num = ?
+      GROUP BY chapter_num, chapter_name
+    `);
+
+    const chapters = stmt.all(titleNum) as Array<{ chapterNum: string; chapterName: string; count: number }>;
+    return chapters.sort((a, b) => compareWACNumbers(a.chapterNum, b.chapterNum));
+  }
+
+  listWACSections(chapterNum: string): Array<{ citation: string; sectionName: string }> {
     const stmt = this.db.prepare(`
       SELECT 
         citation,
         section_name as sectionName
-      FROM rcw
+      FROM wac
       WHERE chapter_num = ?
-      ORDER BY citation
     `);
 
-    return stmt.all(chapterNum) as any[];
+    const sections = stmt.all(chapterNum) as Array<{ citation: string; sectionName: string }>;
+    return sections.sort((a, b) => compareWACNumbers(a.citation, b.citation));
+  }
+
+  // Every recorded text of a section or rule, oldest first
+  getSectionVersions(type: string, citation: string): SectionVersion[] {
+    const stmt = this.db.prepare(`
+      SELECT 
+        id,
+        type,
+        citation,
+        variant,
+        section_name as sectionName,
+        full_text as fullText,
+        history_note as historyNote,
+        effective_from as effectiveFrom,
+        recorded_at as recordedAt,
+        superseded_at as supersededAt
+      FROM section_versions
+      WHERE type = ? AND citation = ?
+      ORDER BY id
+    `);
+
+    return stmt.all(type, citation) as SectionVersion[];
+  }
+
+  /**
+   * The version in effect on a date (YYYY-MM-DD). A version counts from its
+   * effective date, or from when it was recorded if that is unknown. A text
+   * marked "effective until" a date no longer counts from that date.
+   */
+  getSectionAsOf(type: string, citation: string, asOf: string): SectionVersion | null {
+    const stmt = this.db.prepare(`
+      SELECT 
+        id,
+        type,
+        citation,
+        variant,
+        section_name as sectionName,
+        full_text as fullText,
+        history_note as historyNote,
+        effective_from as effectiveFrom,
+        recorded_at as recordedAt,
+        superseded_at as supersededAt
+      FROM section_versions
+      WHERE type = @type AND citation = @citation
+        AND COALESCE(effective_from, date(recorded_at)) <= @asOf
+        AND NOT (variant LIKE 'until %' AND SUBSTR(variant, 7) <= @asOf)
+      ORDER BY COALESCE(effective_from, date(recorded_at)) DESC, id DESC
+      LIMIT 1
+    `);
+
+    return (stmt.get({ type, citation, asOf }) as SectionVersion | undefined) || null;
+  }
+
+  getSectionVersion(id: number): SectionVersion | null {
+    const stmt = this.db.prepare(`
+      SELECT 
+        id,
+        type,
+        citation,
+        variant,
+        section_name as sectionName,
+        full_text as fullText,
+        history_note as historyNote,
+        effective_from as effectiveFrom,
+        recorded_at as recordedAt,
+        superseded_at as supersededAt
+      FROM section_versions
+      WHERE id = ?
+    `);
+
+    return (stmt.get(id) as SectionVersion | undefined) || null;
+  }
+
+  // Sections and rules whose text was recorded at or after `since` (any ISO timestamp)
+  getChangedSince(since: string): SectionChange[] {
+    const stmt = this.db.prepare(`
+      SELECT 
+        v.type,
+        v.citation,
+        (SELECT MAX(p.id) FROM section_versions p
+          WHERE p.type = v.type AND p.citation = v.citation AND p.variant = v.variant
+            AND p.recorded_at < datetime(?)) as fromId,
+        MAX(v.id) as toId
+      FROM section_versions v
+      WHERE v.recorded_at >= datetime(?)
+      GROUP BY v.type, v.citation, v.variant
+      ORDER BY v.type, v.citation, v.variant
+    `);
+
+    return stmt.all(since, since) as SectionChange[];
+  }
+
+  // What a section or rule cites; court rules are keyed as "RPC 1.7"
+  getReferences(type: string, citation: string): CitationEdge[] {
+    const stmt = this.db.prepare(`
+      SELECT 
+        from_type as fromType,
+        from_citation as fromCitation,
+        to_type as toType,
+        to_kind as toKind,
+        to_citation as toCitation,
+        context
+      FROM citations
+      WHERE from_type = ? AND from_citation = ?
+      ORDER BY to_type, to_kind, to_citation
+    `);
+
+    return stmt.all(type, citation) as CitationEdge[];
+  }
+
+  // What cites a section, chapter, title or rule
+  getCitedBy(type: string, kind: string, citation: string): CitationEdge[] {
+    const stmt = this.db.prepare(`
+      SELECT 
+        from_type as fromType,
+        from_citation as fromCitation,
+        to_type as toType,
+        to_kind as toKind,
+        to_citation as toCitation,
+        context
+      FROM citations
+      WHERE to_type = ? AND to_kind = ? AND to_citation = ?
+      ORDER BY from_type, from_citation
+    `);
+
+    return stmt.all(type, kind, citation) as CitationEdge[];
+  }
+
+  /**
+   * Definitions of a term that govern the given section or chapter, nearest
+   * scope first: the section itself, its chapter, then its title.
+   */
+  getGoverningDefinitions(term: string, type: 'RCW' | 'WAC', citation: string): Definition[] {
+    const separator = type === 'WAC' ? '-' : '.';
+    const parts = citation.split(separator);
+    const chapterNum = parts.slice(0, 2).join(separator);
+    const titleNum = parts[0];
+
+    const stmt = this.db.prepare(`
+      SELECT term, scope, type, citation, text
+      FROM definitions
+      WHERE term IN (?, ?) AND type = ?
+        AND ((scope = 'section' AND citation = ?)
+          OR (scope = 'chapter' AND chapter_num = ?)
+          OR (scope = 'title' AND title_num = ?))
+      ORDER BY CASE scope WHEN 'section' THEN 0 WHEN 'chapter' THEN 1 ELSE 2 END,
+               CASE WHEN term = ? THEN 0 ELSE 1 END
+    `);
+
+    // "vehicles" falls back to "vehicle"
+    return stmt.all(term, term.replace(/s$/i, ''), type, citation, chapterNum, titleNum, term) as Definition[];
+  }
+
+  findDefinitions(term: string, limit: number = 10): Definition[] {
+    const stmt = this.db.prepare(`
+      SELECT term, scope, type, citation, text
+      FROM definitions
+      WHERE term IN (?, ?)
+      ORDER BY type, citation
+      LIMIT ?
+    `);
+
+    return stmt.all(term, term.replace(/s$/i, ''), limit) as Definition[];
   }
 
   getStatistics(): { rcwCount: number; wacCount: number; courtRulesCount: number; lastUpdate: string } {
     const stats = this.db.prepare(`
       SELECT 
-        (SELECT COUNT(*) FROM rcw) as rcwCount,
+        (SELECT COUNT(DISTINCT citation) FROM rcw) as rcwCount,
         (SELECT COUNT(*) FROM wac) as wacCount,
         (SELECT COUNT(*) FROM court_rules) as courtRulesCount,
         (SELECT value FROM metadata WHERE key = 'last_update') as lastUpdate
@@ -270,4 +700,86 @@ export class LawDatabase {
   close(): void {
     this.db.close();
   }
+
+  private sectionName(type: SemanticResult['type'], citation: string): string | undefined {
+    if (type === 'RCW') return this.getRCW(citation)?.sectionName || undefined;
+    if (type === 'WAC') return this.getWAC(citation)?.sectionName || undefined;
+    const [ruleSet, ...number] = citation.split(' ');
+    return this.getCourtRule(ruleSet, number.join(' '))?.ruleName || undefined;
+  }
+
+  /**
+   * A text's most distinctive terms, by tf-idf. Its words are stemmed by an
+   * FTS5 table with the index's tokenizer, so "vehicles" and "vehicle" count
+   * as one term, and document frequencies are read from each index's
+   * vocabulary. Each term is returned as the word the text uses most for it.
+   */
+  private termVector(text: string): Array<{ word: string; weight: number }> {
+    const corpora = FTS_CORPORA.filter(([fts]) => this.hasTable(fts));
+    this.db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS temp.similar_words USING fts5(word, tokenize='porter unicode61');
+      CREATE VIRTUAL TABLE IF NOT EXISTS temp.similar_words_terms USING fts5vocab(temp, similar_words, instance);
+      ${corpora.map(([fts]) => `CREATE VIRTUAL TABLE IF NOT EXISTS temp.${fts}_terms USING fts5vocab(main, ${fts}, row);`).join('\n')}
+    `);
+
+    // Numbers are left out: they are mostly citations and dates
+    const counts = new Map<string, number>();
+    for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+      if (STOPWORDS.has(word) || !/\p{L}/u.test(word)) continue;
+      counts.set(word, (counts.get(word) || 0) + 1);
+    }
+    const words = [...counts.keys()];
+
+    // One row per distinct word, so each stem maps back to the words it came from
+    const insert = this.db.prepare('INSERT INTO temp.similar_words (rowid, word) VALUES (?, ?)');
+    this.db.transaction(() => {
+      this.db.exec('DELETE FROM temp.similar_words');
+      words.forEach((word, i) => insert.run(i + 1, word));
+    })();
+
+    const stems = new Map<string, { word: string; wordCount: number; count: number }>();
+    for (const { term, doc } of this.db.prepare('SELECT term, doc FROM temp.similar_words_terms').all() as Array<{ term: string; doc: number }>) {
+      const word = words[doc - 1];
+      const count = counts.get(word)!;
+      const stem = stems.get(term);
+      if (!stem) {
+        stems.set(term, { word, wordCount: count, count });
+      } else {
+        stem.count += count;
+        if (count > stem.wordCount) Object.assign(stem, { word, wordCount: count });
+      }
+    }
+
+    let documents = 0;
+    const frequencies = corpora.map(([fts, table]) => {
+      documents += (this.db.prepare(`SELECT COUNT(*) as count FROM ${table}`).get() as { count: number }).count;
+      return this.db.prepare(`SELECT doc FROM temp.${fts}_terms WHERE term = ?`);
+    });
+
+    const weighted: Array<{ word: string; weight: number }> = [];
+    for (const [term, stem] of stems) {
+      const frequency = frequencies.reduce((sum, stmt) => sum + ((stmt.get(term) as { doc: number } | undefined)?.doc || 0), 0);
+      // A term no other section uses cannot find one
+      if (frequency <= 1) continue;
+      weighted.push({ word: stem.word, weight: (1 + Math.log(stem.count)) * Math.log(documents / frequency) });
+    }
+    return weighted.sort((a, b) => b.weight - a.weight || a.word.localeCompare(b.word)).slice(0, SIMILAR_TERMS);
+  }
+
+  // Court rules tables only exist once addCourtRulesTables has run
+  private hasTable(name: string): boolean {
+    return !!this.db.prepare(`SELECT 1 FROM sqlite_master WHERE name = ?`).get(name);
+  }
+
+  // Sections scraped before subsections were parsed have no tree
+  private withSubsections<T extends { subsections?: Subsection[] }>(row: any): T {
+    return {
+      ...row,
+      subsections: row.subsections ? JSON.parse(row.subsections) : undefined,
+      historyNote: row.historyNote || undefined,
+      notes: row.notes || undefined,
+      statusTarget: row.statusTarget || undefined,
+      statusNote: row.statusNote || undefined
+    };
+  }
 }
\ No newline at end of file
@@ -0,0 +1,128 @@
+import Database from 'better-sqlite3';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { inEffect, initializeDatabase } from './init.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const DB_PATH = join(__dirname, '../../data/washington-laws.db');
+
+export type DefinitionScope = 'section' | 'chapter' | 'title';
+
+export interface ParsedDefinition {
+  term: string;
+  scope: DefinitionScope;
+  text: string;               // the defining paragraph(s), labels included
+}
+
+export interface DefinitionSource {
+  citation: string;
+  chapterName?: string;
+  sectionName?: string;
+  fullText: string;
+}
+
+// (3) "Vehicle" or "motor vehicle" means ..., optionally after a short
+// "As used in this chapter," style introduction
+const DEFINITION_START = /^(?:\([0-9A-Za-z]{1,5}\)\s*)*((?:as used in|for (?:the )?purposes? of|unless)[^"“]{0,150}?,\s*)?((?:["“][^"”]{1,80}["”][\s,;]*(?:or\s+|and\s+)?)+)(?:means|includes|has the (?:same )?meanings?|shall mean|shall include|refers to)\b/i;
+
+/**
+ * Work out where a definitions section applies from its lead-in, e.g. "The
+ * definitions in this section apply throughout this chapter". Sections of a
+ * chapter named "Definitions", such as chapter 46.04 RCW, apply to the title.
+ */
+function definitionScope(source: DefinitionSource, leadIn: string): DefinitionScope {
+  if (/^definitions/i.test(source.chapterName || '')) return 'title';
+
+  // "The definitions in this section apply throughout this chapter"
+  const mention = leadIn
+    .replace(/\b(?:definitions|words and phrases|terms)\s+(?:set forth |contained |used )?in this section\b/gi, '')
+    .match(/this (title|chapter|section)\b/i);
+  return mention ? mention[1].toLowerCase() as DefinitionScope : 'chapter';
+}
+
+export function isDefinitionSection(source: DefinitionSource): boolean {
+  return /\bdefinitions?\b/i.test(source.sectionName || '') || /^definitions/i.test(source.chapterName || '');
+}
+
+/**
+ * Split a definitions section into its defined terms. A definition runs from
+ * the paragraph that introduces the quoted term to the next one that does.
+ */
+export function parseDefinitions(source: DefinitionSource): ParsedDefinition[] {
+  const lines = source.fullText.split('\n').map(line => line.trim()).filter(Boolean);
+  const leadIn: string[] = [];
+  const definitions: Array<{ terms: string[]; lines: string[] }> = [];
+
+  for (const line of lines) {
+    const match = line.match(DEFINITION_START);
+    if (match) {
+      if (match[1]) leadIn.push(match[1]);
+      const terms = [...match[2].matchAll(/["“]([^"”]+)["”]/g)].map(m => m[1].trim().replace(/[,.]$/, ''));
+      definitions.push({ terms, lines: [line] });
+    } else if (definitions.length > 0) {
+      definitions[definitions.length - 1].lines.push(line);
+    } else {
+      leadIn.push(line);
+    }
+  }
+
+  const scope = definitionScope(source, leadIn.join(' '));
+  return definitions.flatMap(definition => definition.terms.map(term => ({
+    term,
+    scope,
+    text: definition.lines.join('\n')
+  })));
+}
+
+function chapterOf(type: string, citation: string): string {
+  return citation.slice(0, citation.lastIndexOf(type === 'WAC' ? '-' : '.'));
+}
+
+/**
+ * Rebuild the definitions table from every RCW and WAC definitions section.
+ * Of an RCW section with two texts, only the one in effect is read.
+ */
+export function rebuildDefinitions(db: Database.Database): { sections: number; definitions: number } {
+  const stats = { sections: 0, definitions: 0 };
+  const insert = db.prepare(`
+    INSERT INTO definitions (term, scope, type, citation, chapter_num, title_num, text)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  db.transaction(() => {
+    db.exec('DELETE FROM definitions');
+
+    for (const type of ['RCW', 'WAC']) {
+      const rows = db.prepare(`
+        SELECT citation, title_num as titleNum, chapter_name as chapterName,
+               section_name as sectionName, full_text as fullText
+        FROM ${type.toLowerCase()}
+        WHERE (section_name LIKE '%definition%' OR chapter_name LIKE 'definitions%')
+          ${type === 'RCW' ? `AND (variant = '' OR ${inEffect(`date('now')`)})` : ''}
+      `).all() as Array<DefinitionSource & { titleNum: string }>;
+
+      for (const row of rows) {
+        if (!isDefinitionSection(row)) continue;
+        const definitions = parseDefinitions(row);
+        for (const definition of definitions) {
+          insert.run(definition.term, definition.scope, type, row.citation, chapterOf(type, row.citation), row.titleNum, definition.text);
+        }
+        stats.definitions += definitions.length;
+        stats.sections++;
+      }
+    }
+  })();
+
+  return stats;
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const db = initializeDatabase(DB_PATH);
+  console.log('Parsing definition sections...');
+  const stats = rebuildDefinitions(db);
+  console.log(`Stored ${stats.definitions} definitions from ${stats.sections} sections`);
+  db.close();
+}
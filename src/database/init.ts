@@ -2,30 +2,171 @@ import Database from 'better-sqlite3';
 import { existsSync, mkdirSync } from 'fs';
 import { dirname, join } from 'path';
 import { fileURLToPath } from 'url';
+import { currentEffectiveDate, lastAmended, parseHistoryNote } from '../history.js';
+import { detectStatus } from '../status.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-const DATA_DIR = join(__dirname, '../../data');
-const DB_PATH = join(DATA_DIR, 'washington-laws.db');
+const DB_PATH = join(__dirname, '../../data/washington-laws.db');
 
-export function initializeDatabase(): Database.Database {
-  // Ensure data directory exists
-  if (!existsSync(DATA_DIR)) {
-    mkdirSync(DATA_DIR, { recursive: true });
+// CREATE TABLE IF NOT EXISTS leaves existing tables alone, so columns added
+// after the first release are added here
+export function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    return true;
   }
+  return false;
+}
 
-  const db = new Database(DB_PATH);
-  
-  // Enable foreign keys and WAL mode for better performance
-  db.pragma('foreign_keys = ON');
-  db.pragma('journal_mode = WAL');
+// Sections stored before status tracking are checked for repeal notices once
+function backfillStatus(db: Database.Database, table: string): void {
+  const select = db.prepare(`
+    SELECT id, section_name as sectionName, SUBSTR(full_text, 1, 1000) as fullText, history_note as historyNote
+    FROM ${table} WHERE id > ? ORDER BY id LIMIT 1000
+  `);
+  const update = db.prepare(`UPDATE ${table} SET status = ?, status_target = ?, status_note = ? WHERE id = ?`);
 
-  // Create RCW table
+  db.transaction(() => {
+    let lastId = 0;
+    while (true) {
+      const rows = select.all(lastId) as Array<{ id: number; sectionName: string; fullText: string; historyNote: string | null }>;
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        const info = detectStatus({ ...row, historyNote: row.historyNote || undefined });
+        if (info.status !== 'active') {
+          update.run(info.status, info.statusTarget || null, info.statusNote || null, row.id);
+        }
+      }
+      lastId = rows[rows.length - 1].id;
+    }
+  })();
+}
+
+// Only ISO dates are usable for point-in-time lookups
+function isoDate(column: string): string {
+  return `CASE WHEN ${column} GLOB '[0-9][0-9][0-9][0-9]-[0-9][0-9]-[0-9][0-9]*' THEN ${column} END`;
+}
+
+const VERSIONED_TABLES = [
+  { table: 'rcw', type: 'RCW', citation: (row: string) => `${row}.citation`, variant: (row: string) => `${row}.variant`, sectionName: 'section_name', historyNote: 'history_note' },
+  { table: 'wac', type: 'WAC', citation: (row: string) => `${row}.citation`, variant: () => `''`, sectionName: 'section_name', historyNote: 'history_note' },
+  {
+    table: 'court_rules',
+    type: 'COURT_RULE',
+    citation: (row: string) => `${row}.rule_set || ' ' || ${row}.rule_number`,
+    variant: () => `''`,
+    sectionName: 'rule_name',
+    historyNote: null
+  }
+];
+
+/**
+ * Keep every text a section or rule has had in section_versions. The
+ * scrapers use INSERT OR REPLACE, which drops the old row, so the history is
+ * recorded by triggers whenever a row arrives with different text; deleting
+ * a row closes its open version. Called again by addCourtRulesTables once
+ * court_rules exists.
+ */
+export function addSectionVersions(db: Database.Database): void {
   db.exec(`
-    CREATE TABLE IF NOT EXISTS rcw (
+    CREATE TABLE IF NOT EXISTS section_versions (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
-      citation TEXT UNIQUE NOT NULL,
+      type TEXT NOT NULL,           -- 'RCW', 'WAC', 'COURT_RULE'
+      citation TEXT NOT NULL,       -- '46.61.502' or 'RPC 1.7'
+      variant TEXT NOT NULL DEFAULT '', -- rcw.variant, for sections with two texts in effect
+      section_name TEXT,
+      full_text TEXT NOT NULL,
+      history_note TEXT,
+      effective_from TEXT,          -- effective date of this text, when known
+      recorded_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      superseded_at DATETIME        -- when a different text replaced it
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_section_versions_citation ON section_versions(type, citation);
+  `);
+  addColumnIfMissing(db, 'section_versions', 'variant', `TEXT NOT NULL DEFAULT ''`);
+
+  for (const source of VERSIONED_TABLES) {
+    const exists = db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`).get(source.table);
+    if (!exists) continue;
+
+    const { table, type, citation, variant, sectionName, historyNote } = source;
+    const record = `
+      UPDATE section_versions SET superseded_at = CURRENT_TIMESTAMP
+        WHERE type = '${type}' AND citation = ${citation('new')} AND variant = ${variant('new')} AND superseded_at IS NULL;
+      INSERT INTO section_versions (type, citation, variant, section_name, full_text, history_note, effective_from)
+        VALUES ('${type}', ${citation('new')}, ${variant('new')}, new.${sectionName}, new.full_text,
+                ${historyNote ? `new.${historyNote}` : 'NULL'}, ${isoDate('new.effective_date')});
+    `;
+    const changed = `
+      NOT EXISTS (SELECT 1 FROM section_versions
+        WHERE type = '${type}' AND citation = ${citation('new')} AND variant = ${variant('new')}
+          AND superseded_at IS NULL AND full_text = new.full_text)
+    `;
+
+    db.exec(`
+      CREATE TRIGGER IF NOT EXISTS ${table}_version_ai AFTER INSERT ON ${table}
+      WHEN ${changed}
+      BEGIN ${record} END;
+
+      CREATE TRIGGER IF NOT EXISTS ${table}_version_au AFTER UPDATE OF full_text ON ${table}
+      WHEN ${changed}
+      BEGIN ${record} END;
+
+      CREATE TRIGGER IF NOT EXISTS ${table}_version_ad AFTER DELETE ON ${table}
+      BEGIN
+        UPDATE section_versions SET superseded_at = CURRENT_TIMESTAMP
+          WHERE type = '${type}' AND citation = ${citation('old')} AND variant = ${variant('old')} AND superseded_at IS NULL;
+      END;
+    `);
+
+    // Sections stored before versions were kept become their first version
+    db.exec(`
+      INSERT INTO section_versions (type, citation, variant, section_name, full_text, history_note, effective_from, recorded_at)
+      SELECT '${type}', ${citation('t')}, ${variant('t')}, t.${sectionName}, t.full_text, ${historyNote ? `t.${historyNote}` : 'NULL'},
+             ${isoDate('t.effective_date')}, COALESCE(t.updated_at, CURRENT_TIMESTAMP)
+      FROM ${table} t
+      WHERE NOT EXISTS (SELECT 1 FROM section_versions v
+        WHERE v.type = '${type}' AND v.citation = ${citation('t')} AND v.variant = ${variant('t')})
+    `);
+  }
+}
+
+/**
+ * Create an external-content FTS5 table over `content`, with porter stemming
+ * so "negligent" also finds "negligence". Tables created before stemming was
+ * added are dropped and rebuilt from their content table.
+ */
+export function createFtsTable(db: Database.Database, name: string, content: string, columns: string[]): void {
+  const existing = db.prepare(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?`).get(name) as { sql: string } | undefined;
+  if (existing?.sql.includes('porter')) return;
+
+  db.transaction(() => {
+    if (existing) db.exec(`DROP TABLE ${name}`);
+    db.exec(`
+      CREATE VIRTUAL TABLE ${name} USING fts5(
+        ${columns.join(',\n        ')},
+        content=${content},
+        content_rowid=id,
+        tokenize='porter unicode61'
+      );
+      INSERT INTO ${name}(${name}) VALUES ('rebuild');
+    `);
+  })();
+}
+
+// A section with an amendment taking effect later has two rows, one per
+// variant, e.g. 'until 2026-07-01' and 'from 2026-07-01'
+function rcwTable(name: string): string {
+  return `
+    CREATE TABLE IF NOT EXISTS ${name} (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      citation TEXT NOT NULL,
+      variant TEXT NOT NULL DEFAULT '', -- '' unless the section has two texts in effect
       title_num TEXT NOT NULL,
       chapter_num TEXT NOT NULL,
       section_num TEXT NOT NULL,
@@ -33,16 +174,69 @@ export function initializeDatabase(): Database.Database {
       chapter_name TEXT,
       section_name TEXT,
       full_text TEXT NOT NULL,
+      subsections TEXT,           -- JSON tree of (1)(a)(i) subsections
+      history_note TEXT,
+      notes TEXT,
+      status TEXT NOT NULL DEFAULT 'active', -- 'repealed', 'recodified', 'expired', 'contingent'
+      status_target TEXT,         -- new citation of a recodified section
+      status_note TEXT,           -- the repeal/recodification notice
       effective_date TEXT,
+      effective_until TEXT,       -- first day this text no longer applies
       last_amended TEXT,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(citation, variant)
     );
+  `;
+}
 
-    CREATE INDEX IF NOT EXISTS idx_rcw_citation ON rcw(citation);
-    CREATE INDEX IF NOT EXISTS idx_rcw_title ON rcw(title_num);
-    CREATE INDEX IF NOT EXISTS idx_rcw_chapter ON rcw(chapter_num);
-  `);
+// Older databases made rcw.citation unique, so the second text of a section
+// replaced the first. SQLite can't drop that constraint; copy the rows into
+// a new table instead, keeping ids so rcw_fts stays in step. The triggers go
+// with the old table and are created again below.
+function rebuildRcwTable(db: Database.Database): void {
+  const columns = db.prepare('PRAGMA table_info(rcw)').all() as Array<{ name: string }>;
+  if (columns.some(c => c.name === 'variant')) return;
+
+  db.transaction(() => {
+    db.exec(rcwTable('rcw_new'));
+    const kept = (db.prepare('PRAGMA table_info(rcw_new)').all() as Array<{ name: string }>)
+      .map(c => c.name)
+      .filter(name => columns.some(c => c.name === name))
+      .join(', ');
+    db.exec(`
+      INSERT INTO rcw_new (${kept}) SELECT ${kept} FROM rcw;
+      DROP TABLE rcw;
+      ALTER TABLE rcw_new RENAME TO rcw;
+    `);
+  })();
+}
+
+/**
+ * SQL condition for rows in effect on a date: the single text of a section,
+ * or whichever of its two texts covers the date.
+ */
+export function inEffect(date: string, alias: string = ''): string {
+  const column = (name: string) => `${alias ? `${alias}.` : ''}${name}`;
+  return `(${column('effective_until')} IS NULL OR ${column('effective_until')} > ${date})
+    AND (${column('variant')} NOT LIKE 'from %' OR ${column('effective_date')} <= ${date})`;
+}
+
+export function initializeDatabase(dbPath: string = DB_PATH): Database.Database {
+  // Ensure data directory exists
+  const dataDir = dirname(dbPath);
+  if (!existsSync(dataDir)) {
+    mkdirSync(dataDir, { recursive: true });
+  }
+
+  const db = new Database(dbPath);
+  
+  // Enable foreign keys and WAL mode for better performance
+  db.pragma('foreign_keys = ON');
+  db.pragma('journal_mode = WAL');
+
+  // Create RCW table
+  db.exec(rcwTable('rcw'));
 
   // Create WAC table
   db.exec(`
@@ -56,6 +250,12 @@ export function initializeDatabase(): Database.Database {
       chapter_name TEXT,
       section_name TEXT,
       full_text TEXT NOT NULL,
+      subsections TEXT,           -- JSON tree of (1)(a)(i) subsections
+      history_note TEXT,
+      notes TEXT,
+      status TEXT NOT NULL DEFAULT 'active', -- 'repealed', 'recodified', 'expired', 'contingent'
+      status_target TEXT,         -- new citation of a recodified section
+      status_note TEXT,           -- the repeal/recodification notice
       effective_date TEXT,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
@@ -66,29 +266,43 @@ export function initializeDatabase(): Database.Database {
     CREATE INDEX IF NOT EXISTS idx_wac_chapter ON wac(chapter_num);
   `);
 
-  // Create FTS5 virtual tables for full-text search
-  db.exec(`
-    CREATE VIRTUAL TABLE IF NOT EXISTS rcw_fts USING fts5(
-      citation,
-      title_name,
-      chapter_name,
-      section_name,
-      full_text,
-      content=rcw,
-      content_rowid=id
-    );
+  for (const table of ['rcw', 'wac']) {
+    addColumnIfMissing(db, table, 'subsections', 'TEXT');
+    addColumnIfMissing(db, table, 'history_note', 'TEXT');
+    addColumnIfMissing(db, table, 'notes', 'TEXT');
+    addColumnIfMissing(db, table, 'status_target', 'TEXT');
+    addColumnIfMissing(db, table, 'status_note', 'TEXT');
+    if (addColumnIfMissing(db, table, 'status', `TEXT NOT NULL DEFAULT 'active'`)) {
+      backfillStatus(db, table);
+    }
+  }
 
-    CREATE VIRTUAL TABLE IF NOT EXISTS wac_fts USING fts5(
-      citation,
-      title_name,
-      chapter_name,
-      section_name,
-      full_text,
-      content=wac,
-      content_rowid=id
-    );
+  rebuildRcwTable(db);
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_rcw_citation ON rcw(citation);
+    CREATE INDEX IF NOT EXISTS idx_rcw_title ON rcw(title_num);
+    CREATE INDEX IF NOT EXISTS idx_rcw_chapter ON rcw(chapter_num);
   `);
 
+  // The RCW scraper used to store the bracketed session law as effective_date
+  // and never set last_amended; fill both from the history note instead
+  const misdated = db.prepare(`
+    SELECT id, history_note as historyNote, notes FROM rcw WHERE effective_date LIKE '[%'
+  `).all() as Array<{ id: number; historyNote: string | null; notes: string | null }>;
+  if (misdated.length > 0) {
+    const fixDates = db.prepare('UPDATE rcw SET effective_date = ?, last_amended = ? WHERE id = ?');
+    db.transaction(() => {
+      for (const row of misdated) {
+        const sessionLaws = parseHistoryNote(row.historyNote || '', row.notes || '');
+        fixDates.run(currentEffectiveDate(sessionLaws) || null, lastAmended(sessionLaws) || null, row.id);
+      }
+    })();
+  }
+
+  // Create FTS5 virtual tables for full-text search
+  createFtsTable(db, 'rcw_fts', 'rcw', ['citation', 'title_name', 'chapter_name', 'section_name', 'full_text']);
+  createFtsTable(db, 'wac_fts', 'wac', ['citation', 'title_name', 'chapter_name', 'section_name', 'full_text']);
+
   // Create triggers to keep FTS tables in sync
   db.exec(`
     CREATE TRIGGER IF NOT EXISTS rcw_ai AFTER INSERT ON rcw BEGIN
@@ -136,8 +350,8 @@ export function initializeDatabase(): Database.Database {
     CREATE TABLE IF NOT EXISTS scraper_progress (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       type TEXT NOT NULL,
-      title_num TEXT,
-      chapter_num TEXT,
+      title_num TEXT NOT NULL DEFAULT '',   -- '' for the top-level row
+      chapter_num TEXT NOT NULL DEFAULT '', -- '' for title-level rows
       status TEXT NOT NULL,
       error_message TEXT,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
@@ -147,7 +361,87 @@ export function initializeDatabase(): Database.Database {
     CREATE INDEX IF NOT EXISTS idx_scraper_type_status ON scraper_progress(type, status);
   `);
 
-  console.log(`Database initialized at: ${DB_PATH}`);
+  // Older databases stored NULL keys, which never conflict, so every run appended
+  // new rows. Normalise the keys and keep the latest row per title/chapter.
+  db.transaction(() => {
+    db.exec(`
+      UPDATE scraper_progress SET chapter_num = '' WHERE chapter_num IS NULL;
+      UPDATE scraper_progress SET title_num = '' WHERE title_num IS NULL AND chapter_num = '';
+      UPDATE scraper_progress
+        SET title_num = SUBSTR(chapter_num, 1, INSTR(chapter_num, CASE type WHEN 'WAC' THEN '-' ELSE '.' END) - 1)
+        WHERE title_num IS NULL OR (title_num = '' AND chapter_num != '');
+      DELETE FROM scraper_progress
+        WHERE id NOT IN (SELECT MAX(id) FROM scraper_progress GROUP BY type, title_num, chapter_num);
+    `);
+  })();
+
+  db.exec(`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_scraper_progress_key
+      ON scraper_progress(type, title_num, chapter_num);
+  `);
+
+  // Create source fingerprints table (used by update:laws to detect upstream changes)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS source_fingerprints (
+      type TEXT NOT NULL,           -- 'RCW', 'WAC', 'COURT_RULE'
+      source_key TEXT NOT NULL,     -- chapter number or 'RPC 1.7'
+      fingerprint TEXT NOT NULL,    -- sha256 of the upstream page or PDF
+      checked_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (type, source_key)
+    );
+  `);
+
+  addSectionVersions(db);
+
+  // Create citation graph table (filled by citation-graph.ts)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS citations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      from_type TEXT NOT NULL,      -- 'RCW', 'WAC', 'COURT_RULE'
+      from_citation TEXT NOT NULL,  -- '46.61.502' or 'RPC 1.7'
+      to_type TEXT NOT NULL,
+      to_kind TEXT NOT NULL,        -- 'section', 'chapter', 'title', 'rule'
+      to_citation TEXT NOT NULL,    -- '9A.04.110', '46.20', '51' or 'CRRLJ 3.2'
+      context TEXT,                 -- text around the first mention
+      UNIQUE(from_type, from_citation, to_type, to_kind, to_citation)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_citations_to ON citations(to_type, to_citation);
+  `);
+
+  // Create definitions table (filled by definitions.ts)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS definitions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      term TEXT NOT NULL COLLATE NOCASE,
+      scope TEXT NOT NULL,          -- 'section', 'chapter' or 'title' the definition governs
+      type TEXT NOT NULL,           -- 'RCW', 'WAC'
+      citation TEXT NOT NULL,       -- defining section
+      chapter_num TEXT NOT NULL,
+      title_num TEXT NOT NULL,
+      text TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_definitions_term ON definitions(term);
+  `);
+
+  // Create vector index table (filled by vector-index.ts)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS embeddings (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      type TEXT NOT NULL,           -- 'RCW', 'WAC', 'COURT_RULE'
+      citation TEXT NOT NULL,       -- '46.61.502' or 'RPC 1.7'
+      path TEXT NOT NULL DEFAULT '', -- '' for the whole section, '(1)' for a subsection
+      model TEXT NOT NULL,          -- embedding provider that made the vector
+      text_hash TEXT NOT NULL,      -- sha1 of the embedded text, to skip unchanged text
+      vector BLOB NOT NULL,         -- float32 values
+      UNIQUE(type, citation, path, model)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_embeddings_model ON embeddings(model, type);
+  `);
+
+  console.log(`Database initialized at: ${dbPath}`);
   return db;
 }
 
@@ -0,0 +1,173 @@
+import Database from 'better-sqlite3';
+import { createHash } from 'crypto';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { Subsection } from '../types.js';
+import { formatSubsection } from '../subsections.js';
+import { INACTIVE_STATUSES } from '../status.js';
+import { EmbeddingProvider, loadEmbeddingProvider, vectorToBlob } from '../embeddings.js';
+import { inEffect, initializeDatabase } from './init.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const DB_PATH = join(__dirname, '../../data/washington-laws.db');
+const BATCH_SIZE = 500;
+const EMBED_BATCH_SIZE = 64;
+
+const INACTIVE = INACTIVE_STATUSES.map(status => `'${status}'`).join(', ');
+
+interface Source {
+  type: 'RCW' | 'WAC' | 'COURT_RULE';
+  table: string;
+  // Selects id, citation, name, text and subsections, for rows with id > ?
+  query: string;
+}
+
+const SOURCES: Source[] = [
+  {
+    type: 'RCW',
+    table: 'rcw',
+    query: `
+      SELECT id, citation, section_name as name, full_text as text, subsections FROM rcw
+      WHERE id > ? AND status NOT IN (${INACTIVE}) AND (variant = '' OR ${inEffect(`date('now')`)})
+      ORDER BY id LIMIT ${BATCH_SIZE}
+    `
+  },
+  {
+    type: 'WAC',
+    table: 'wac',
+    query: `
+      SELECT id, citation, section_name as name, full_text as text, subsections FROM wac
+      WHERE id > ? AND status NOT IN (${INACTIVE})
+      ORDER BY id LIMIT ${BATCH_SIZE}
+    `
+  },
+  {
+    type: 'COURT_RULE',
+    table: 'court_rules',
+    query: `
+      SELECT id, rule_set || ' ' || rule_number as citation, rule_name as name, full_text as text, NULL as subsections
+      FROM court_rules WHERE id > ? ORDER BY id LIMIT ${BATCH_SIZE}
+    `
+  }
+];
+
+interface Passage {
+  type: Source['type'];
+  citation: string;
+  path: string;               // '' or '(1)'
+  text: string;
+}
+
+/**
+ * A section is embedded whole, and each of its top-level subsections on its
+ * own so a long section can match on the one subsection that answers.
+ */
+export function sectionPassages(
+  type: Source['type'],
+  row: { citation: string; name: string | null; text: string; subsections: string | null }
+): Passage[] {
+  const heading = row.name ? `${row.name}\n` : '';
+  const passages: Passage[] = [{ type, citation: row.citation, path: '', text: `${heading}${row.text || ''}` }];
+
+  const subsections: Subsection[] = row.subsections ? JSON.parse(row.subsections) : [];
+  if (subsections.length > 1) {
+    for (const subsection of subsections) {
+      passages.push({ type, citation: row.citation, path: `(${subsection.label})`, text: `${heading}${formatSubsection(subsection)}` });
+    }
+  }
+  return passages;
+}
+
+function textHash(text: string): string {
+  return createHash('sha1').update(text).digest('hex');
+}
+
+/**
+ * Embed every in-force section, subsection and court rule with `provider`.
+ * Passages whose text is unchanged since the last build keep their vectors,
+ * and vectors for passages that no longer exist are removed.
+ */
+export async function buildVectorIndex(
+  db: Database.Database,
+  provider: EmbeddingProvider
+): Promise<{ passages: number; embedded: number; removed: number }> {
+  const stats = { passages: 0, embedded: 0, removed: 0 };
+  const key = (p: { type: string; citation: string; path: string }) => `${p.type}|${p.citation}|${p.path}`;
+
+  const existing = new Map<string, string>();
+  for (const row of db.prepare('SELECT type, citation, path, text_hash as textHash FROM embeddings WHERE model = ?').iterate(provider.name) as Iterable<any>) {
+    existing.set(key(row), row.textHash);
+  }
+
+  const upsert = db.prepare(`
+    INSERT OR REPLACE INTO embeddings (type, citation, path, model, text_hash, vector)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  const seen = new Set<string>();
+  let pending: Passage[] = [];
+
+  const flush = async () => {
+    if (pending.length === 0) return;
+    const vectors = await provider.embed(pending.map(p => p.text));
+    db.transaction(() => {
+      pending.forEach((p, i) => upsert.run(p.type, p.citation, p.path, provider.name, textHash(p.text), vectorToBlob(vectors[i])));
+    })();
+    stats.embedded += pending.length;
+    pending = [];
+  };
+
+  for (const source of SOURCES) {
+    const exists = db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`).get(source.table);
+    if (!exists) continue;
+
+    // Read in batches so the full corpus never sits in memory at once
+    const select = db.prepare(source.query);
+    let lastId = 0;
+    while (true) {
+      const rows = select.all(lastId) as Array<{ id: number; citation: string; name: string | null; text: string; subsections: string | null }>;
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        for (const passage of sectionPassages(source.type, row)) {
+          seen.add(key(passage));
+          stats.passages++;
+          if (existing.get(key(passage)) === textHash(passage.text)) continue;
+
+          pending.push(passage);
+          if (pending.length >= EMBED_BATCH_SIZE) await flush();
+        }
+      }
+      lastId = rows[rows.length - 1].id;
+    }
+    await flush();
+    console.log(`  ${source.type}: embedded`);
+  }
+
+  const remove = db.prepare('DELETE FROM embeddings WHERE model = ? AND type = ? AND citation = ? AND path = ?');
+  db.transaction(() => {
+    for (const stale of [...existing.keys()].filter(k => !seen.has(k))) {
+      const [type, citation, path] = stale.split('|');
+      stats.removed += remove.run(provider.name, type, citation, path).changes;
+    }
+  })();
+
+  return stats;
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const db = initializeDatabase(DB_PATH);
+  loadEmbeddingProvider(undefined, { allowDownload: true })
+    .then(async provider => {
+      console.log(`Building vector index with ${provider.name}${provider.lexical ? ' (lexical fallback)' : ''}...`);
+      const stats = await buildVectorIndex(db, provider);
+      console.log(`Embedded ${stats.embedded} of ${stats.passages} passages (${stats.removed} removed)`);
+    })
+    .catch(error => {
+      console.error('Vector index build failed:', error);
+      process.exitCode = 1;
+    })
+    .finally(() => db.close());
+}
@@ -0,0 +1,119 @@
+export interface DiffPart {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+// Beyond this many LCS cells the changed middle is shown as one replacement
+const MAX_CELLS = 16_000_000;
+
+// Words, with line breaks kept as tokens so paragraphs survive the diff
+function tokenize(text: string): string[] {
+  return text.match(/\n|[^\s]+/g) || [];
+}
+
+function push(parts: DiffPart[], type: DiffPart['type'], tokens: string[]): void {
+  if (tokens.length === 0) return;
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text = joinTokens([last.text, ...tokens]);
+  } else {
+    parts.push({ type, text: joinTokens(tokens) });
+  }
+}
+
+function joinTokens(tokens: string[]): string {
+  return tokens.reduce((text, token) => {
+    if (!text) return token;
+    return token === '\n' || text.endsWith('\n') ? text + token : `${text} ${token}`;
+  }, '');
+}
+
+/**
+ * Word-level diff of two texts. Common leading and trailing words are
+ * stripped before the longest-common-subsequence pass, which keeps typical
+ * amendments (a few changed words in a long section) cheap.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const parts: DiffPart[] = [];
+  push(parts, 'equal', a.slice(0, start));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  if (n * m > MAX_CELLS) {
+    push(parts, 'delete', midA);
+    push(parts, 'insert', midB);
+  } else {
+    // lengths[i * (m + 1) + j] = LCS length of midA[i..] and midB[j..]
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * (m + 1) + j] = midA[i] === midB[j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        push(parts, 'equal', [midA[i++]]);
+        j++;
+      } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+        push(parts, 'delete', [midA[i++]]);
+      } else {
+        push(parts, 'insert', [midB[j++]]);
+      }
+    }
+    push(parts, 'delete', midA.slice(i));
+    push(parts, 'insert', midB.slice(j));
+  }
+
+  push(parts, 'equal', a.slice(endA));
+  return parts;
+}
+
+/**
+ * Render a diff as a markdown redline: ~~deleted~~ and **inserted**. With
+ * changedOnly, unchanged paragraphs are left out.
+ */
+export function formatRedline(parts: DiffPart[], changedOnly: boolean = false): string {
+  const mark = (part: DiffPart, marker: string) => part.text
+    .split('\n')
+    .map(line => (line ? `${marker}${line}${marker}` : line))
+    .join('\n');
+
+  const redline = parts.reduce((text, part) => {
+    const rendered = part.type === 'equal' ? part.text
+      : part.type === 'delete' ? mark(part, '~~')
+      : mark(part, '**');
+    if (!text) return rendered;
+    return text.endsWith('\n') || rendered.startsWith('\n') ? text + rendered : `${text} ${rendered}`;
+  }, '');
+
+  if (!changedOnly) return redline;
+  return redline.split('\n').filter(line => /~~|\*\*/.test(line)).join('\n...\n');
+}
+
+export function countChangedWords(parts: DiffPart[]): { inserted: number; deleted: number } {
+  const words = (part: DiffPart) => tokenize(part.text).filter(token => token !== '\n').length;
+  return {
+    inserted: parts.filter(part => part.type === 'insert').reduce((sum, part) => sum + words(part), 0),
+    deleted: parts.filter(part => part.type === 'delete').reduce((sum, part) => sum + words(part), 0)
+  };
+}
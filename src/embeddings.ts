@@ -0,0 +1,179 @@
+import { STOPWORDS } from './search-query.js';
+import { synonymsFor } from './synonyms.js';
+
+export interface EmbeddingProvider {
+  name: string;               // stored in embeddings.model; vectors from different models never mix
+  dimensions: number;
+  embed(texts: string[]): Promise<Float32Array[]>;
+  lexical?: boolean;          // matches shared words, not meaning: the hashing fallback
+}
+
+const HASHING_DIMENSIONS = 384;
+
+// Light suffix stripping so "deposits", "deposited" and "depositing" share a feature
+function stem(word: string): string {
+  for (const suffix of ['ational', 'ations', 'ation', 'ments', 'ment', 'ness', 'ings', 'ing', 'ies', 'ied', 'ed', 'es', 'ly', 's']) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      return suffix === 'ies' || suffix === 'ied' ? `${word.slice(0, -3)}y` : word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+function terms(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+(?:&[a-z]+)?/g) || [])
+    .filter(word => !STOPWORDS.has(word))
+    .map(stem);
+}
+
+// 32-bit FNV-1a
+function hash(feature: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    h ^= feature.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * A dependency-free embedding: stemmed words and word pairs hashed into a
+ * fixed-size vector, with dictionary synonyms added at half weight so
+ * "landlord" and "lessor" land near each other. It needs no model files
+ * and no network, and stands in when the embedding model is not installed.
+ * It is lexical, not a language model: texts are close when they share
+ * words, word pairs or synonyms.
+ */
+export function hashingEmbedding(text: string, dimensions: number = HASHING_DIMENSIONS): Float32Array {
+  const vector = new Float32Array(dimensions);
+  const counts = new Map<string, number>();
+  const add = (feature: string, weight: number) => counts.set(feature, (counts.get(feature) || 0) + weight);
+
+  const words = terms(text);
+  words.forEach((word, i) => {
+    add(word, 1);
+    if (i > 0) add(`${words[i - 1]} ${word}`, 0.5);
+    for (const synonym of synonymsFor(word)) {
+      for (const synonymWord of terms(synonym)) add(synonymWord, 0.5);
+    }
+  });
+
+  for (const [feature, count] of counts) {
+    const h = hash(feature);
+    // Sublinear term frequency, with the sign taken from the hash to keep collisions unbiased
+    vector[h % dimensions] += (h & 0x80000000 ? -1 : 1) * (1 + Math.log(count));
+  }
+  return normalize(vector);
+}
+
+export function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (const value of vector) norm += value * value;
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+// Vectors are stored normalised, so their dot product is the cosine similarity
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  for (let i = 0; i < a.length && i < b.length; i++) dot += a[i] * b[i];
+  return dot;
+}
+
+export function vectorToBlob(vector: Float32Array): Buffer {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+export function blobToVector(blob: Buffer): Float32Array {
+  // Copy, since a Buffer's offset into its pool need not be 4-byte aligned
+  return new Float32Array(new Uint8Array(blob).buffer);
+}
+
+export const hashingProvider: EmbeddingProvider = {
+  name: `hashing-${HASHING_DIMENSIONS}`,
+  dimensions: HASHING_DIMENSIONS,
+  embed: async texts => texts.map(text => hashingEmbedding(text)),
+  lexical: true
+};
+
+export const DEFAULT_EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+// The parts of @xenova/transformers used here
+type FeatureExtractor = (text: string, options: { pooling: 'mean'; normalize: boolean }) => Promise<{ data: ArrayLike<number> }>;
+
+export interface TransformersModule {
+  env: { allowRemoteModels: boolean; localModelPath: string };
+  pipeline(task: 'feature-extraction', model: string): Promise<FeatureExtractor>;
+}
+
+export interface EmbeddingProviderOptions {
+  // Fetch a model missing from EMBEDDING_MODEL_DIR from the Hugging Face hub;
+  // only build:embeddings does, so the server never goes online
+  allowDownload?: boolean;
+  // Where @xenova/transformers comes from; tests pass a stub
+  loadTransformers?: () => Promise<TransformersModule>;
+}
+
+// Named through a variable so the build does not need the optional package
+const TRANSFORMERS_MODULE = '@xenova/transformers';
+
+/**
+ * A sentence-transformer model run on the CPU through @xenova/transformers,
+ * an optional dependency of this package. The model is read from
+ * EMBEDDING_MODEL_DIR or the package's cache of earlier downloads.
+ */
+async function transformersProvider(model: string, options: EmbeddingProviderOptions): Promise<EmbeddingProvider> {
+  const { loadTransformers = () => import(TRANSFORMERS_MODULE) as Promise<TransformersModule> } = options;
+  let transformers: TransformersModule;
+  try {
+    transformers = await loadTransformers();
+  } catch {
+    throw new Error(`The transformers embedding provider needs ${TRANSFORMERS_MODULE}; install it or use EMBEDDING_PROVIDER=hashing`);
+  }
+
+  transformers.env.allowRemoteModels = options.allowDownload === true;
+  if (process.env.EMBEDDING_MODEL_DIR) transformers.env.localModelPath = process.env.EMBEDDING_MODEL_DIR;
+  const extractor = await transformers.pipeline('feature-extraction', model);
+
+  const probe = await extractor('test', { pooling: 'mean', normalize: true });
+  return {
+    name: model,
+    dimensions: probe.data.length,
+    embed: async texts => {
+      const vectors: Float32Array[] = [];
+      for (const text of texts) {
+        const output = await extractor(text, { pooling: 'mean', normalize: true });
+        vectors.push(Float32Array.from(output.data));
+      }
+      return vectors;
+    }
+  };
+}
+
+/**
+ * The provider named by EMBEDDING_PROVIDER. By default it is the
+ * sentence-transformer model EMBEDDING_MODEL, falling back to the lexical
+ * hashing provider, with a warning, when the package or the model is not
+ * installed. 'transformers' insists on the model and 'hashing' skips it.
+ */
+export async function loadEmbeddingProvider(
+  name: string | undefined = process.env.EMBEDDING_PROVIDER,
+  options: EmbeddingProviderOptions = {}
+): Promise<EmbeddingProvider> {
+  if (name === 'hashing') return hashingProvider;
+  if (name !== undefined && name !== 'transformers') {
+    throw new Error(`Unknown embedding provider "${name}"; use "hashing" or "transformers"`);
+  }
+
+  const model = process.env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL;
+  try {
+    return await transformersProvider(model, options);
+  } catch (error) {
+    if (name === 'transformers') throw error;
+    console.error(`Embedding model ${model} unavailable (${(error as Error).message}); using the lexical ${hashingProvider.name} fallback`);
+    return hashingProvider;
+  }
+}
@@ -0,0 +1,137 @@
+import { SessionLaw } from './types.js';
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+];
+
+// "2019 c 232 § 1", "1975-'76 2nd ex.s. c 38 § 2", "2013 2nd sp.s. c 35 §§ 36, 37 (...)"
+const SESSION_LAW = /^(\d{4})(?:-'?\d{2})?\s+(?:(.*?)\s+)?c\s+(\w+)(?:\s+§§?\s*([^(]+?))?\s*(?:\((.+)\))?$/;
+
+/**
+ * "July 1, 2022" -> "2022-07-01"
+ */
+export function parseLongDate(text: string): string | undefined {
+  const match = text.match(/([A-Za-z]+)\s+(\d{1,2}),\s+(\d{4})/);
+  if (!match) return undefined;
+
+  const month = MONTHS.indexOf(match[1].toLowerCase());
+  if (month < 0) return undefined;
+  return `${match[3]}-${String(month + 1).padStart(2, '0')}-${match[2].padStart(2, '0')}`;
+}
+
+/**
+ * Read "Effective date—2022 c 16: "This act takes effect July 1, 2022."" lines
+ * from a section's notes, keyed by "2022|16" (year and chapter).
+ */
+function effectiveDatesFromNotes(notes: string): Map<string, string> {
+  const dates = new Map<string, string>();
+
+  for (const line of notes.split('\n')) {
+    const match = line.match(/^Effective dates?[^:]*?[—–-]\s*([^:]+):\s*(.*)$/i);
+    if (!match) continue;
+
+    const date = match[2].match(/(?:takes? effect|effective)\s+(?:on\s+)?([A-Z][a-z]+ \d{1,2}, \d{4})/);
+    // "Sometime 1, 2022" has the shape of a date but no month
+    const effectiveDate = date && parseLongDate(date[1]);
+    if (!effectiveDate) continue;
+
+    for (const law of match[1].matchAll(/(\d{4})(?:-'?\d{2})?\s+(?:[^;,]*?\s+)?c\s+(\w+)/g)) {
+      dates.set(`${law[1]}|${law[2]}`, effectiveDate);
+    }
+  }
+
+  return dates;
+}
+
+/**
+ * Split an RCW history note ("2022 c 16 § 54; 2017 c 336 § 3; 1998 c 213 §
+ * 3.") into its session laws, newest first as the Code Reviser lists them.
+ * Entries that are not session laws ("Code 1881 § 1234", "RRS § 2341") are
+ * kept with only their text. Effective dates come from "(effective ...)"
+ * remarks or from the section's notes.
+ */
+export function parseHistoryNote(historyNote: string, notes: string = ''): SessionLaw[] {
+  const effectiveDates = effectiveDatesFromNotes(notes);
+  const laws: SessionLaw[] = [];
+  let prior = false;
+
+  const note = historyNote.trim().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  for (const piece of note.split(/;|\.\s+(?=Prior:)/)) {
+    let text = piece.trim().replace(/\.$/, '');
+    if (/^Prior:/i.test(text)) {
+      prior = true;
+      text = text.replace(/^Prior:\s*/i, '');
+    }
+    if (!text) continue;
+
+    const match = text.match(SESSION_LAW);
+    if (!match) {
+      laws.push({ citation: text, sections: [], ...(prior ? { prior } : {}) });
+      continue;
+    }
+
+    const [, year, session, chapter, sections, remark] = match;
+    const law: SessionLaw = {
+      citation: remark ? text.slice(0, text.lastIndexOf('(')).trim() : text,
+      year: parseInt(year),
+      chapter,
+      sections: sections ? sections.split(/\s*(?:,|\band\b)\s*/).filter(Boolean) : []
+    };
+    if (session) law.session = session;
+    if (remark) law.note = remark;
+
+    const effective = (remark && /effective/i.test(remark) ? parseLongDate(remark) : undefined)
+      || effectiveDates.get(`${year}|${chapter}`);
+    if (effective) law.effectiveDate = effective;
+    if (prior) law.prior = true;
+
+    laws.push(law);
+  }
+
+  return laws;
+}
+
+/**
+ * The most recent amendment: its effective date when one is stated,
+ * otherwise its year.
+ */
+export function lastAmended(laws: SessionLaw[]): string | undefined {
+  const latest = laws
+    .filter(law => law.year && !law.prior)
+    .reduce<SessionLaw | undefined>((best, law) => (!best || law.year! > best.year! ? law : best), undefined);
+  if (!latest) return undefined;
+  return latest.effectiveDate || String(latest.year);
+}
+
+/**
+ * The effective date of the current text, when the history states it.
+ */
+export function currentEffectiveDate(laws: SessionLaw[]): string | undefined {
+  const current = laws.filter(law => law.year && !law.prior);
+  const latestYear = Math.max(...current.map(law => law.year!));
+  return current.find(law => law.year === latestYear && law.effectiveDate)?.effectiveDate;
+}
+
+export interface EffectiveWindow {
+  variant: string;            // '' for a single text, else 'until 2026-07-01' or 'from 2026-07-01'
+  effectiveFrom?: string;
+  effectiveUntil?: string;    // the day this text stops applying
+}
+
+/**
+ * Read the "(Effective until July 1, 2026.)" or "(Effective July 1, 2026.)"
+ * note the site adds to the catchline when a section has two texts, the one
+ * in force and one taking effect later.
+ */
+export function parseEffectiveWindow(sectionName: string): EffectiveWindow {
+  const until = sectionName.match(/\((?:Effective until|Expires)\s+([A-Z][a-z]+ \d{1,2}, \d{4})[^)]*\)/i);
+  const effectiveUntil = until ? parseLongDate(until[1]) : undefined;
+  if (effectiveUntil) return { variant: `until ${effectiveUntil}`, effectiveUntil };
+
+  const from = sectionName.match(/\(Effective\s+(?:on\s+)?([A-Z][a-z]+ \d{1,2}, \d{4})[^)]*\)/i);
+  const effectiveFrom = from ? parseLongDate(from[1]) : undefined;
+  if (effectiveFrom) return { variant: `from ${effectiveFrom}`, effectiveFrom };
+
+  return { variant: '' };
+}
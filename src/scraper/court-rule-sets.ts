@@ -0,0 +1,123 @@
+import { existsSync, readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+/**
+ * Turns the three numbers in a rule PDF's name into the rule number, e.g.
+ * [3, 2, 1] from SUP_CrR_03_02_01.pdf. The sets differ in how they number.
+ */
+export type RuleNumberDecoder = (parts: [number, number, number]) => string;
+
+// 3.2, with a sub-rule as 3.2.1; the default
+export const decimalRuleNumber: RuleNumberDecoder = ([major, minor, sub]) =>
+  `${major}.${minor}${sub > 0 ? `.${sub}` : ''}`;
+
+// As decimal, but 04_00_00 is rule 4 rather than 4.0
+export const wholeRuleNumber: RuleNumberDecoder = ([major, minor, sub]) =>
+  minor === 0 && sub === 0 ? `${major}` : decimalRuleNumber([major, minor, sub]);
+
+// 04_04_00 is ER 404
+export const hundredsRuleNumber: RuleNumberDecoder = ([major, minor, sub]) =>
+  `${major}${String(minor).padStart(2, '0')}${sub > 0 ? `.${sub}` : ''}`;
+
+// A sub-rule as a letter: 01_08_01 is 1.8a
+export const letterSubRuleNumber: RuleNumberDecoder = ([major, minor, sub]) =>
+  `${major}.${minor}${sub > 0 ? String.fromCharCode(96 + sub) : ''}`;
+
+/**
+ * The court rule sets the court rules scraper collects. Statewide sets are
+ * published at courts.wa.gov: each is listed at
+ * ?fa=court_rules.list&group=<group>&set=<set> with one PDF per rule, named
+ * like GA_RPC_01_07_00.pdf (rule 1.7). Adding a set here is all it takes to
+ * scrape it; its written form must also be in COURT_RULE_SETS so citations
+ * to it are recognised. Local rules come from LOCAL_RULES_PATH instead.
+ */
+export interface CourtRuleSetConfig {
+  ruleSet: string;            // as stored in court_rules.rule_set: "CRR"
+  group: 'ga' | 'sup' | 'app' | 'clj' | 'local';
+  name: string;
+  decodeRuleNumber?: RuleNumberDecoder;
+  // Override the list page, for sets published outside the usual groups
+  listUrl?: string;
+  // Read the rule number (group 1) from each PDF link's text rather than
+  // from the PDF's name, for sets not named the courts.wa.gov way
+  linkPattern?: RegExp;
+}
+
+/**
+ * One court's local rules, as written in LOCAL_RULES_PATH. Each court
+ * publishes them on its own site, so a source names the page linking one PDF
+ * per rule and how to read the rule number from a link's text.
+ */
+export interface LocalRuleSource {
+  ruleSet: string;            // stored upper-case: "KCLCR"
+  court: string;              // "King County Superior Court"
+  name: string;               // "King County Local Civil Rules"
+  listUrl: string;
+  // A regular expression, the rule number its group 1: "^LCR\\s+(\\d+(?:\\.\\d+)*)"
+  linkPattern: string;
+}
+
+export const LOCAL_RULES_PATH = join(__dirname, '../../data/local-rules.json');
+
+export const COURT_RULE_SET_CONFIG: CourtRuleSetConfig[] = [
+  // Rules of general application
+  { ruleSet: 'GR', group: 'ga', name: 'General Rules', decodeRuleNumber: wholeRuleNumber },
+  { ruleSet: 'ER', group: 'ga', name: 'Rules of Evidence', decodeRuleNumber: hundredsRuleNumber },
+  { ruleSet: 'RPC', group: 'ga', name: 'Rules of Professional Conduct', decodeRuleNumber: letterSubRuleNumber },
+  { ruleSet: 'APR', group: 'ga', name: 'Admission and Practice Rules', decodeRuleNumber: wholeRuleNumber },
+  { ruleSet: 'ELC', group: 'ga', name: 'Rules for Enforcement of Lawyer Conduct' },
+  { ruleSet: 'CJC', group: 'ga', name: 'Code of Judicial Conduct' },
+
+  // Superior court
+  { ruleSet: 'CR', group: 'sup', name: 'Superior Court Civil Rules', decodeRuleNumber: wholeRuleNumber },
+  { ruleSet: 'CRR', group: 'sup', name: 'Superior Court Criminal Rules' },
+  { ruleSet: 'JUCR', group: 'sup', name: 'Juvenile Court Rules' },
+  { ruleSet: 'MAR', group: 'sup', name: 'Superior Court Mandatory Arbitration Rules' },
+  { ruleSet: 'SPR', group: 'sup', name: 'Superior Court Special Proceedings Rules' },
+
+  // Appellate courts
+  { ruleSet: 'RAP', group: 'app', name: 'Rules of Appellate Procedure' },
+
+  // Courts of limited jurisdiction
+  { ruleSet: 'CRLJ', group: 'clj', name: 'Civil Rules for Courts of Limited Jurisdiction' },
+  { ruleSet: 'CRRLJ', group: 'clj', name: 'Criminal Rules for Courts of Limited Jurisdiction' },
+  { ruleSet: 'IRLJ', group: 'clj', name: 'Infraction Rules for Courts of Limited Jurisdiction' },
+  { ruleSet: 'RALJ', group: 'clj', name: 'Rules for Appeal of Decisions of Courts of Limited Jurisdiction' }
+];
+
+/**
+ * The local rule sets listed in a JSON array of LocalRuleSource, ready for
+ * the scraper; none when the file does not exist. A malformed entry is an
+ * error naming it, rather than a set that silently scrapes nothing.
+ */
+export function loadLocalRuleSets(path: string = LOCAL_RULES_PATH): CourtRuleSetConfig[] {
+  if (!existsSync(path)) return [];
+
+  const sources = JSON.parse(readFileSync(path, 'utf8')) as LocalRuleSource[];
+  if (!Array.isArray(sources)) throw new Error(`${path}: expected an array of local rule sources`);
+
+  return sources.map((source, i) => {
+    const invalid = (problem: string) => new Error(`${path}: local rule source ${i + 1} ${problem}`);
+    for (const field of ['ruleSet', 'court', 'name', 'listUrl', 'linkPattern'] as const) {
+      if (typeof source[field] !== 'string' || !source[field].trim()) throw invalid(`has no ${field}`);
+    }
+
+    const ruleSet = source.ruleSet.trim().toUpperCase();
+    if (COURT_RULE_SET_CONFIG.some(config => config.ruleSet === ruleSet)) throw invalid(`reuses the statewide rule set ${ruleSet}`);
+
+    let linkPattern: RegExp;
+    try {
+      linkPattern = new RegExp(source.linkPattern, 'i');
+    } catch (error) {
+      throw invalid(`has an invalid linkPattern: ${(error as Error).message}`);
+    }
+    // An empty alternative always matches, so this counts the pattern's groups
+    if (new RegExp(`${source.linkPattern}|`).exec('')!.length < 2) throw invalid('has a linkPattern without a group for the rule number');
+
+    return { ruleSet, group: 'local', name: `${source.name} (${source.court})`, listUrl: source.listUrl, linkPattern };
+  });
+}
@@ -3,203 +3,361 @@ import * as cheerio from 'cheerio';
 import Database from 'better-sqlite3';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import { COURT_RULE_SETS } from '../citations.js';
+import { addCourtRulesTables } from '../database/add-court-rules.js';
+import { parseLongDate } from '../history.js';
+import { CourtRuleComment } from '../types.js';
+import { COURT_RULE_SET_CONFIG, CourtRuleSetConfig, decimalRuleNumber, loadLocalRuleSets } from './court-rule-sets.js';
+import { PdfLine, PdfParagraph, extractPdfLines, formatParagraphs, layoutParagraphs, stripRunningText } from './pdf-layout.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 const DB_PATH = join(__dirname, '../../data/washington-laws.db');
 const BASE_URL = 'https://www.courts.wa.gov';
+const DELAY_MS = 300;
 
-interface CourtRule {
+export interface CourtRulePDF {
   ruleSet: string;
   ruleNumber: string;
   ruleName: string;
-  url: string;
+  pdfUrl: string;
 }
 
-class CourtRulesScraper {
+export interface NormalisedRule {
+  ruleSet: string;
+  ruleNumber: string;
+  ruleName: string;
+  fullText: string;           // the rule alone, a paragraph a line, subsections indented
+  comments: CourtRuleComment[];
+  historyNote?: string;       // 'Adopted effective July 1, 1980; Amended effective ...'
+  effectiveDate?: string;     // YYYY-MM-DD
+}
+
+/**
+ * The steps every rule goes through, in order. Each can be replaced, e.g.
+ * to read saved files instead of downloading them.
+ */
+export interface CourtRuleStages {
+  fetch(url: string): Promise<Uint8Array>;                     // list pages and PDFs alike
+  parse(pdf: Uint8Array): Promise<PdfLine[][]>;                // the positioned lines of each page
+  normalise(pages: PdfLine[][], rule: CourtRulePDF): NormalisedRule;
+  persist(rule: NormalisedRule): void;
+}
+
+export interface CourtRulesScraperOptions {
+  dbPath?: string;
+  baseUrl?: string;
+  delayMs?: number;
+  stages?: Partial<CourtRuleStages>;
+}
+
+// "CrRLJ", the form used in list URLs, PDF names and rule headings
+function writtenForm(ruleSet: string): string {
+  return COURT_RULE_SETS[ruleSet] || ruleSet;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function ruleListUrl(config: CourtRuleSetConfig, baseUrl: string = BASE_URL): string {
+  return config.listUrl || `${baseUrl}/court_rules/?fa=court_rules.list&group=${config.group}&set=${writtenForm(config.ruleSet)}`;
+}
+
+/**
+ * Read a rule set's list page: one entry per rule PDF, in page order, with
+ * the rule number decoded from the PDF's name (or read from the link text by
+ * the set's linkPattern) and the rule name taken from the link text when it
+ * has one.
+ */
+export function parseRuleList(html: string, config: CourtRuleSetConfig, pageUrl: string = ruleListUrl(config)): CourtRulePDF[] {
+  const $ = cheerio.load(html);
+  const written = writtenForm(config.ruleSet);
+  const decode = config.decodeRuleNumber || decimalRuleNumber;
+  // "../court_rules/pdf/RPC/GA_RPC_01_07_00.pdf"
+  const fileName = new RegExp(`_${escapeRegExp(written)}_(\\d+)_(\\d+)_(\\d+)\\.pdf$`, 'i');
+
+  const rules: CourtRulePDF[] = [];
+  $('a').each((_, element) => {
+    const href = $(element).attr('href');
+    const text = $(element).text().replace(/\s+/g, ' ').trim();
+    let ruleNumber: string;
+    let ruleName: string;
+
+    if (config.linkPattern) {
+      // Local rules: "LCR 26 - Discovery" linking any PDF
+      const match = text.match(config.linkPattern);
+      if (!href || !/\.pdf$/i.test(new URL(href, pageUrl).pathname) || !match) return;
+      ruleNumber = match[1];
+      ruleName = text.slice(match.index! + match[0].length).replace(/^\s*[-–—:]?\s*/, '').trim();
+    } else {
+      const match = href?.match(fileName);
+      if (!href || !match) return;
+      ruleNumber = decode([parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10)]);
+      // Link text is "RPC 1.7 - Conflict of Interest: Current Clients" or just the name
+      ruleName = text
+        .replace(new RegExp(`^${escapeRegExp(written)}\\s+${escapeRegExp(ruleNumber)}\\b\\s*[-–—:]?\\s*`, 'i'), '')
+        .trim();
+    }
+    if (rules.some(rule => rule.ruleNumber === ruleNumber)) return;
+
+    rules.push({
+      ruleSet: config.ruleSet,
+      ruleNumber,
+      ruleName: ruleName || `Rule ${ruleNumber}`,
+      pdfUrl: new URL(href, pageUrl).toString()
+    });
+  });
+
+  return rules;
+}
+
+export async function fetchBytes(url: string): Promise<Uint8Array> {
+  const response = await axios.get(url, { responseType: 'arraybuffer', timeout: 30000 });
+  return new Uint8Array(response.data);
+}
+
+// Page furniture, dropped even from one-page PDFs where it cannot be seen to repeat
+const FOOTER_DATE = /^Effective (\d+)\/(\d+)\/(\d+)$/i;
+const FOOTER_LINES = [/^Page \d+ of \d+$/i, FOOTER_DATE];
+
+// "[Adopted effective July 1, 1980; Amended effective ...]"
+const HISTORY_START = /^\[(?:Originally|Adopted|Amended|Effective|Former|Rescinded)\b/i;
+// "Comment", "Washington Comments", "Additional Washington Comments"
+const COMMENTS_HEADING = /^(?:Official\s+|(?:Additional\s+)?Washington\s+)?Comments?$/i;
+const COMMENT_START = /^\[(\d+[A-Za-z]?)\]\s*(.*)$/;
+
+/**
+ * Sort a rule's paragraphs into the rule itself, its numbered comments and
+ * its bracketed history. Comments run from the comments heading to the end;
+ * short headings between them ("General Principles") are left out.
+ */
+function splitRuleParagraphs(paragraphs: PdfParagraph[]): { ruleParagraphs: PdfParagraph[]; comments: CourtRuleComment[]; history: string[] } {
+  const ruleParagraphs: PdfParagraph[] = [];
+  const comments: CourtRuleComment[] = [];
+  const history: string[] = [];
+  let inComments = false;
+
+  paragraphs.forEach(({ text }, i) => {
+    if (HISTORY_START.test(text)) {
+      history.push(text.replace(/^\[|\]$/g, '').trim());
+      return;
+    }
+    if (COMMENTS_HEADING.test(text)) {
+      inComments = true;
+      return;
+    }
+    if (!inComments) {
+      ruleParagraphs.push(paragraphs[i]);
+      return;
+    }
+
+    const start = text.match(COMMENT_START);
+    if (start) {
+      comments.push({ number: start[1], text: start[2] });
+    } else if (COMMENT_START.test(paragraphs[i + 1]?.text || '') && !/[.;:,)]$/.test(text) && text.split(' ').length <= 8) {
+      return;
+    } else if (comments.length > 0) {
+      const last = comments[comments.length - 1];
+      last.text = `${last.text}\n${text}`.trim();
+    }
+  });
+
+  return { ruleParagraphs, comments, history };
+}
+
+/**
+ * Turn a rule PDF's pages into the stored rule: running headers and footers
+ * are dropped, paragraphs are rebuilt from the page layout, anything before
+ * the rule's own heading is cut, and comments and history lines are split
+ * off. Footnotes follow the rule text. The rule name is read from the
+ * heading when the list page had none; the effective date from the footer,
+ * or else the history's last date.
+ */
+export function normaliseRuleText(pages: PdfLine[][], rule: CourtRulePDF): NormalisedRule {
+  const written = writtenForm(rule.ruleSet);
+  const footerDate = pages.flat().map(line => line.text.match(FOOTER_DATE)).find(Boolean);
+
+  const { paragraphs, footnotes } = layoutParagraphs(stripRunningText(pages)
+    .map(lines => lines.filter(line => !FOOTER_LINES.some(pattern => pattern.test(line.text)))));
+  const { ruleParagraphs, comments, history } = splitRuleParagraphs(paragraphs);
+  const body = ruleParagraphs
+    .map(paragraph => ({ ...paragraph, text: paragraph.text.replace(/\[.*?Reserved\]/gi, '').trim() }))
+    .filter(paragraph => paragraph.text);
+  let fullText = formatParagraphs([...body, ...footnotes]);
+
+  // Start at the rule heading, dropping any cover text before it
+  const heading = new RegExp(`${escapeRegExp(written)}\\s+${escapeRegExp(rule.ruleNumber)}\\b`, 'i');
+  const ruleStart = fullText.search(heading);
+  if (ruleStart > 0 && ruleStart < 100) {
+    fullText = fullText.substring(ruleStart);
+  }
+
+  // The name follows the heading, in its paragraph or as the next one
+  let ruleName = rule.ruleName;
+  if (ruleName === `Rule ${rule.ruleNumber}`) {
+    const headingAt = body.findIndex(paragraph => new RegExp(`^${heading.source}`, 'i').test(paragraph.text));
+    const rest = headingAt >= 0 ? body[headingAt].text.replace(new RegExp(`^${heading.source}\\s*[-–—:]?\\s*`, 'i'), '') : '';
+    const name = rest || (headingAt >= 0 ? body[headingAt + 1]?.text : undefined);
+    if (name) {
+      ruleName = name.trim();
+    }
+  }
+
+  const historyNote = history.join(' ') || undefined;
+  const historyDates = [...(historyNote || '').matchAll(/effective\s+([A-Za-z]+\s+\d{1,2},\s+\d{4})/gi)];
+  const effectiveDate = footerDate
+    ? `${footerDate[3]}-${footerDate[1].padStart(2, '0')}-${footerDate[2].padStart(2, '0')}`
+    : historyDates.length > 0 ? parseLongDate(historyDates[historyDates.length - 1][1]) : undefined;
+
+  return { ruleSet: rule.ruleSet, ruleNumber: rule.ruleNumber, ruleName, fullText, comments, historyNote, effectiveDate };
+}
+
+/**
+ * Scrapes the court rule sets in COURT_RULE_SET_CONFIG. Each set's list page
+ * is fetched and read for rule PDFs, and each PDF goes through the fetch,
+ * parse, normalise and persist stages.
+ */
+export class CourtRulesScraper {
   private db: Database.Database;
   private insertStmt: Database.Statement;
-  
-  constructor() {
-    this.db = new Database(DB_PATH);
+  private baseUrl: string;
+  private delayMs: number;
+  private stages: CourtRuleStages;
+
+  constructor(options: CourtRulesScraperOptions = {}) {
+    this.baseUrl = options.baseUrl ?? BASE_URL;
+    this.delayMs = options.delayMs ?? DELAY_MS;
+    this.db = new Database(options.dbPath ?? DB_PATH);
     this.insertStmt = this.db.prepare(`
       INSERT OR REPLACE INTO court_rules (
-        rule_set, rule_number, rule_name, full_text, updated_at
-      ) VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+        rule_set, rule_number, rule_name, full_text, comments, history_note, effective_date, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
     `);
+
+    this.stages = {
+      fetch: fetchBytes,
+      parse: extractPdfLines,
+      normalise: normaliseRuleText,
+      persist: rule => this.insertStmt.run(
+        rule.ruleSet, rule.ruleNumber, rule.ruleName, rule.fullText,
+        rule.comments.length > 0 ? JSON.stringify(rule.comments) : null,
+        rule.historyNote ?? null, rule.effectiveDate ?? null
+      ),
+      ...options.stages
+    };
   }
 
   async delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
-  async scrapeAll(): Promise<void> {
-    console.log('Starting Court Rules scraper...\n');
-    
-    // Scrape IRLJ rules
-    await this.scrapeRuleSet('IRLJ', 'Infraction Rules for Courts of Limited Jurisdiction');
-    
-    // Scrape CRLJ rules  
-    await this.scrapeRuleSet('CRLJ', 'Civil Rules for Courts of Limited Jurisdiction');
-    
+  async scrapeAll(ruleSets: CourtRuleSetConfig[] = COURT_RULE_SET_CONFIG): Promise<void> {
+    console.log('Starting court rules scraper...\n');
+
+    for (const config of ruleSets) {
+      await this.scrapeRuleSet(config);
+    }
+
     this.printStats();
     this.db.close();
   }
 
-  async scrapeRuleSet(ruleSet: string, description: string): Promise<void> {
-    console.log(`\nProcessing ${ruleSet} - ${description}`);
-    
+  async scrapeRuleSet(config: CourtRuleSetConfig): Promise<void> {
+    const written = writtenForm(config.ruleSet);
+    console.log(`\nProcessing ${written} - ${config.name}`);
+
     try {
-      // Get list of rules
-      const listUrl = `${BASE_URL}/court_rules/?fa=court_rules.list&group=clj&set=${ruleSet}`;
-      console.log(`  Fetching rule list from: ${listUrl}`);
-      
-      const response = await axios.get(listUrl);
-      const $ = cheerio.load(response.data);
-      
-      const rules: CourtRule[] = [];
-      
-      // Find all rule links
-      $('a').each((_, element) => {
-        const href = $(element).attr('href');
-        const text = $(element).text().trim();
-        
-        // Match rule display links
-        if (href && href.includes('court_rules.display') && href.includes(`set=${ruleSet}`)) {
-          // Extract rule number from href
-          const ruleMatch = href.match(/ruleid=clj[a-z]+(.+?)$/i);
-          if (ruleMatch) {
-            let ruleNumber = ruleMatch[1];
-            // Clean up rule number
-            ruleNumber = ruleNumber.replace(/^[a-z]+/i, '');
-            
-            // Extract rule name from text (format: "IRLJ 1.1 Scope and Purpose of Rules")
-            const textMatch = text.match(new RegExp(`${ruleSet}\\s+([\\d.]+)\\s*(.*)`, 'i'));
-            const ruleName = textMatch ? textMatch[2].trim() : text;
-            const cleanRuleNum = textMatch ? textMatch[1] : ruleNumber;
-            
-            rules.push({
-              ruleSet,
-              ruleNumber: cleanRuleNum,
-              ruleName: ruleName || '',
-              url: href.startsWith('http') ? href : `${BASE_URL}${href}`
-            });
-          }
+      const rules = await this.fetchRuleList(config);
+      console.log(`  Found ${rules.length} ${written} rules to download and parse`);
+
+      for (let i = 0; i < rules.length; i++) {
+        const rule = rules[i];
+        console.log(`    Processing ${written} ${rule.ruleNumber}: ${rule.ruleName}...`);
+
+        try {
+          await this.scrapeRule(rule);
+        } catch (error) {
+          console.error(`      Error: ${(error as Error).message}`);
         }
-      });
-
-      // Remove duplicates
-      const uniqueRules = Array.from(new Map(rules.map(r => [`${r.ruleSet}-${r.ruleNumber}`, r])).values());
-      
-      console.log(`  Found ${uniqueRules.length} rules to scrape`);
-      
-      // Scrape each rule
-      for (let i = 0; i < uniqueRules.length; i++) {
-        const rule = uniqueRules[i];
-        await this.scrapeRule(rule);
-        
+
         if ((i + 1) % 10 === 0) {
-          console.log(`    Processed ${i + 1}/${uniqueRules.length} rules`);
+          console.log(`    Processed ${i + 1}/${rules.length} rules`);
         }
-        
-        await this.delay(300); // Be respectful
+
+        await this.delay(this.delayMs); // Be respectful to the server
       }
-      
-      console.log(`  ✓ Completed ${ruleSet}: ${uniqueRules.length} rules`);
-      
+
+      console.log(`  ✓ Completed ${written}: ${rules.length} rules`);
     } catch (error) {
-      console.error(`Error scraping ${ruleSet}:`, error);
+      console.error(`Error scraping ${written}:`, error);
     }
   }
 
-  async scrapeRule(rule: CourtRule): Promise<void> {
+  async fetchRuleList(config: CourtRuleSetConfig): Promise<CourtRulePDF[]> {
+    const listUrl = ruleListUrl(config, this.baseUrl);
+    console.log(`  Fetching rule list from: ${listUrl}`);
+
+    const html = new TextDecoder().decode(await this.stages.fetch(listUrl));
+    return parseRuleList(html, config, listUrl);
+  }
+
+  fetchRulePdf(rule: CourtRulePDF): Promise<Uint8Array> {
+    return this.stages.fetch(rule.pdfUrl);
+  }
+
+  /**
+   * Run one rule through the pipeline. Pass `pdf` when it has already been
+   * fetched, e.g. to fingerprint it.
+   */
+  async scrapeRule(rule: CourtRulePDF, pdf?: Uint8Array): Promise<NormalisedRule> {
     try {
-      const response = await axios.get(rule.url);
-      const $ = cheerio.load(response.data);
-      
-      // Remove navigation elements
-      $('script, style, nav, .navigation, .breadcrumb, .footer, .header').remove();
-      
-      // Try to find the rule content
-      let fullText = '';
-      
-      // Look for specific content areas
-      const contentSelectors = [
-        '.rule-content',
-        '.content',
-        '#content',
-        '.main-content',
-        'main',
-        'article'
-      ];
-      
-      for (const selector of contentSelectors) {
-        const content = $(selector).first();
-        if (content.length > 0) {
-          fullText = content.text().trim();
-          break;
-        }
-      }
-      
-      // Fallback to body text
-      if (!fullText) {
-        fullText = $('body').text().trim();
-      }
-      
-      // Clean up the text
-      fullText = fullText
-        .replace(/\r\n/g, '\n')
-        .replace(/\n{3,}/g, '\n\n')
-        .replace(/\s+/g, ' ')
-        .trim();
-      
-      // Try to extract just the rule text (remove navigation text)
-      const rulePattern = new RegExp(`${rule.ruleSet}\\s+${rule.ruleNumber}`, 'i');
-      const ruleIndex = fullText.search(rulePattern);
-      if (ruleIndex > 0) {
-        fullText = fullText.substring(ruleIndex);
-      }
-      
-      // Clean up common navigation patterns
-      fullText = fullText
-        .replace(/Washington State Courts.*?Court Rules/g, '')
-        .replace(/Search Court Rules.*?Search/g, '')
-        .replace(/<<.*?>>/g, '')
-        .trim();
-      
-      // Save to database
-      this.insertStmt.run(
-        rule.ruleSet,
-        rule.ruleNumber,
-        rule.ruleName,
-        fullText
-      );
-      
+      const pages = await this.stages.parse(pdf ?? await this.fetchRulePdf(rule));
+      const normalised = this.stages.normalise(pages, rule);
+      this.stages.persist(normalised);
+      return normalised;
     } catch (error) {
-      console.error(`    Error scraping ${rule.ruleSet} ${rule.ruleNumber}:`, (error as Error).message);
+      throw new Error(`Failed to process PDF for ${writtenForm(rule.ruleSet)} ${rule.ruleNumber}: ${(error as Error).message}`);
     }
   }
 
+  close(): void {
+    this.db.close();
+  }
+
   private printStats(): void {
     const stats = this.db.prepare(`
-      SELECT rule_set, COUNT(*) as count 
-      FROM court_rules 
+      SELECT rule_set, COUNT(*) as count
+      FROM court_rules
       GROUP BY rule_set
     `).all() as any[];
-    
+
     console.log('\n=== Court Rules Scraping Complete ===');
     for (const stat of stats) {
-      console.log(`  ${stat.rule_set}: ${stat.count} rules`);
+      console.log(`  ${writtenForm(stat.rule_set)}: ${stat.count} rules`);
     }
-    
+
     const total = this.db.prepare('SELECT COUNT(*) as count FROM court_rules').get() as any;
     console.log(`  Total: ${total.count} court rules`);
   }
 }
 
-// Run the scraper
+// Run the scraper: all configured sets, local ones included, or those named ("RPC", "CrR", ...)
 if (import.meta.url === `file://${process.argv[1]}`) {
+  const configured = [...COURT_RULE_SET_CONFIG, ...loadLocalRuleSets()];
+  const names = process.argv.slice(2).map(name => name.toUpperCase());
+  const ruleSets = names.length > 0
+    ? configured.filter(config => names.includes(config.ruleSet))
+    : configured;
+  const unknown = names.filter(name => !configured.some(config => config.ruleSet === name));
+
+  if (unknown.length > 0) {
+    console.error(`Unknown rule set(s): ${unknown.join(', ')}. Configured: ${configured.map(config => writtenForm(config.ruleSet)).join(', ')}`);
+    process.exit(1);
+  }
+
+  addCourtRulesTables(DB_PATH);
   const scraper = new CourtRulesScraper();
-  scraper.scrapeAll().catch(console.error);
-}
\ No newline at end of file
+  scraper.scrapeAll(ruleSets).catch(console.error);
+}
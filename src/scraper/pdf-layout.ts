@@ -0,0 +1,226 @@
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+
+/**
+ * A run of text as pdfjs places it: x and y are its baseline origin in PDF
+ * units, measured from the bottom left of the page.
+ */
+export interface PdfTextItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;       // font size
+}
+
+export interface PdfLine {
+  text: string;
+  x: number;            // left edge of the first item
+  y: number;
+  height: number;
+}
+
+export interface PdfParagraph {
+  text: string;
+  indent: number;       // 0 for the margin; (a) under it 1, (1) under that 2
+}
+
+// "(a)", "(1)", "(iv)" and "[8]" start a paragraph of their own
+const LABEL = /^(?:\([0-9A-Za-z]{1,5}\)|\[\d+[A-Za-z]?\])\s/;
+// A bracketed note, such as a rule's history, starts one too
+const BRACKETED = /^\[/;
+
+/**
+ * Group a page's text items into lines, top to bottom. Items whose baselines
+ * are within half a line of each other share a line and are read left to
+ * right; a gap wider than two characters is a table column, kept as " | ".
+ */
+export function buildLines(items: PdfTextItem[]): PdfLine[] {
+  const sorted = items
+    .filter(item => item.text.trim())
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+
+  const groups: PdfTextItem[][] = [];
+  for (const item of sorted) {
+    const group = groups[groups.length - 1];
+    if (group && Math.abs(group[0].y - item.y) <= Math.max(group[0].height, item.height) / 2) {
+      group.push(item);
+    } else {
+      groups.push([item]);
+    }
+  }
+
+  return groups.map(group => {
+    group.sort((a, b) => a.x - b.x);
+    let text = '';
+    let end = group[0].x;
+    for (const item of group) {
+      const gap = item.x - end;
+      if (text && gap > item.height * 2) {
+        text = `${text.trimEnd()} | `;
+      } else if (text && gap > item.height * 0.15 && !/\s$/.test(text) && !/^\s/.test(item.text)) {
+        text += ' ';
+      }
+      text += item.text;
+      end = item.x + item.width;
+    }
+    return {
+      text: text.replace(/\s+/g, ' ').trim(),
+      x: group[0].x,
+      y: group[0].y,
+      height: Math.max(...group.map(item => item.height))
+    };
+  });
+}
+
+/**
+ * The lines of each page of a PDF, with their positions.
+ */
+export async function extractPdfLines(data: Uint8Array): Promise<PdfLine[][]> {
+  // Errors only: the rule PDFs' fonts are not needed to read their text
+  const pdf = await getDocument({ data, verbosity: 0 }).promise;
+
+  const pages: PdfLine[][] = [];
+  for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+    const page = await pdf.getPage(pageNum);
+    const textContent = await page.getTextContent();
+
+    const items = (textContent.items as Array<{ str?: string; transform?: number[]; width?: number; height?: number }>)
+      .filter(item => item.str && item.transform)
+      .map(item => ({
+        text: item.str!,
+        x: item.transform![4],
+        y: item.transform![5],
+        width: item.width || 0,
+        height: item.height || Math.hypot(item.transform![2], item.transform![3])
+      }));
+    pages.push(buildLines(items));
+  }
+
+  return pages;
+}
+
+// Page numbers differ from page to page; the rest of a running line does not
+function runningKey(line: PdfLine): string {
+  return line.text.toLowerCase().replace(/\d+/g, '#');
+}
+
+/**
+ * Drop running headers and footers: text among the first or last two lines
+ * of at least half the pages (and of two or more), with numbers ignored so
+ * "Page 1 of 5" and "Page 2 of 5" count as the same line.
+ */
+export function stripRunningText(pages: PdfLine[][]): PdfLine[][] {
+  if (pages.length < 2) return pages;
+
+  const edges = (lines: PdfLine[]) => [...lines.slice(0, 2), ...lines.slice(-2)];
+  const counts = new Map<string, number>();
+  for (const lines of pages) {
+    for (const key of new Set(edges(lines).map(runningKey))) {
+      counts.set(key, (counts.get(key) || 0) + 1);
+    }
+  }
+
+  const threshold = Math.max(2, Math.ceil(pages.length / 2));
+  return pages.map(lines => {
+    const running = new Set(edges(lines).filter(line => (counts.get(runningKey(line)) || 0) >= threshold));
+    return lines.filter(line => !running.has(line));
+  });
+}
+
+// The commonest value, the smaller on a tie
+function mode(values: number[]): number | undefined {
+  const counts = new Map<number, number>();
+  for (const value of values) counts.set(value, (counts.get(value) || 0) + 1);
+  return [...counts].sort((a, b) => b[1] - a[1] || a[0] - b[0])[0]?.[0];
+}
+
+// Prefixes written with a hyphen, kept when a line breaks after them
+const COMPOUND_PREFIXES = new Set(['all', 'court', 'cross', 'ex', 'non', 'quasi', 'self']);
+
+// Every word of the document, hyphenated ones whole: "self-represented"
+function documentWords(lines: PdfLine[]): Set<string> {
+  return new Set(lines.flatMap(line => line.text.toLowerCase().match(/[a-z]+(?:-[a-z]+)*/g) || []));
+}
+
+/**
+ * "judg-" + "ment" -> "judgment", but "non-" + "party" -> "non-party": the
+ * hyphen stays when the document writes the word with one elsewhere, or when
+ * it follows a prefix such as "self" and the document never writes the word
+ * without it. Other lines are joined with a space.
+ */
+function joinLine(paragraph: string, line: string, words: Set<string>): string {
+  const head = paragraph.match(/([A-Za-z]*[a-z])-$/)?.[1].toLowerCase();
+  const tail = line.match(/^[a-z]+/)?.[0];
+  if (!head || !tail) return `${paragraph} ${line}`;
+
+  const compound = words.has(`${head}-${tail}`) || (COMPOUND_PREFIXES.has(head) && !words.has(head + tail));
+  return compound ? paragraph + line : paragraph.slice(0, -1) + line;
+}
+
+/**
+ * Rebuild paragraphs from the lines of each page, in reading order. A line
+ * starts a new paragraph after a gap wider than the usual line spacing, when
+ * its size changes, when it is indented after a finished sentence, when it
+ * opens with a label such as "(a)" or "[8]", and in a table; across a page
+ * break, only a label or a finished sentence does. Labelled paragraphs are
+ * indented by where their label sits on the page. Footnotes, in smaller type
+ * below the text of a page, are moved after all of the text.
+ */
+export function layoutParagraphs(pages: PdfLine[][]): { paragraphs: PdfParagraph[]; footnotes: PdfParagraph[] } {
+  const all = pages.flat();
+  const words = documentWords(all);
+  const bodyHeight = mode(all.map(line => Math.round(line.height))) ?? 0;
+  const lineSpacing = mode(pages.flatMap(lines => lines.slice(1).map((line, i) => Math.round(lines[i].y - line.y)))) ?? bodyHeight;
+
+  // Label positions from left to right are the indentation levels
+  const labelX = [...new Set(all.filter(line => LABEL.test(line.text)).map(line => Math.round(line.x)))].sort((a, b) => a - b);
+  const levels: number[] = [];
+  for (const x of labelX) {
+    if (levels.length === 0 || x - levels[levels.length - 1] > bodyHeight / 2) levels.push(x);
+  }
+  const indentOf = (line: PdfLine) => LABEL.test(line.text) ? levels.filter(x => x <= Math.round(line.x) + bodyHeight / 2).length - 1 : 0;
+
+  const paragraphs: PdfParagraph[] = [];
+  const footnotes: PdfParagraph[] = [];
+  let previous: PdfLine | undefined;
+
+  for (const lines of pages) {
+    // Small type after the page's last line of body text
+    const lastBody = lines.reduce((last, line, i) => line.height >= bodyHeight * 0.85 ? i : last, -1);
+
+    lines.forEach((line, i) => {
+      if (i > lastBody) {
+        const footnote = footnotes[footnotes.length - 1];
+        if (footnote && i > lastBody + 1 && !/^\d/.test(line.text)) footnote.text = joinLine(footnote.text, line.text, words);
+        else footnotes.push({ text: line.text, indent: 0 });
+        return;
+      }
+
+      const paragraph = paragraphs[paragraphs.length - 1];
+      const opens = LABEL.test(line.text) || BRACKETED.test(line.text);
+      const tableRow = line.text.includes(' | ') || previous?.text.includes(' | ');
+      const continues = paragraph && previous && !opens && !tableRow && (i === 0
+        ? !/[.:;\]]$/.test(paragraph.text) || /^[a-z]/.test(line.text)
+        : previous.y - line.y <= lineSpacing * 1.4
+          && Math.abs(previous.height - line.height) < 1
+          // A hanging indent continues a paragraph; an indented first line starts one
+          && (line.x <= previous.x + bodyHeight / 2 || !/[.:;]$/.test(previous.text)));
+
+      if (continues) {
+        paragraph.text = joinLine(paragraph.text, line.text, words);
+      } else {
+        paragraphs.push({ text: line.text, indent: indentOf(line) });
+      }
+      previous = line;
+    });
+  }
+
+  return { paragraphs, footnotes };
+}
+
+/**
+ * Paragraphs as stored text: one per line, indented two spaces a level.
+ */
+export function formatParagraphs(paragraphs: PdfParagraph[]): string {
+  return paragraphs.map(paragraph => `${'  '.repeat(paragraph.indent)}${paragraph.text}`).join('\n');
+}
@@ -4,7 +4,8 @@ import Database from 'better-sqlite3';
 import pLimit from 'p-limit';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
-import { RCWSection } from '../types.js';
+import { parseSectionVariants } from './section-parser.js';
+import { currentEffectiveDate, lastAmended, parseHistoryNote } from '../history.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -21,62 +22,138 @@ function delay(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-class RCWScraper {
+/**
+ * full: scrape everything
+ * resume: skip chapters already marked completed in scraper_progress
+ * only-errors: rescrape only chapters marked error, and every unfinished
+ *   chapter of a title whose chapter list failed
+ */
+export type ScrapeMode = 'full' | 'resume' | 'only-errors';
+
+export interface RCWLink {
+  num: string;
+  name: string;
+  url: string;
+}
+
+export interface RCWScraperOptions {
+  dbPath?: string;
+  rcwUrl?: string;
+  delayMs?: number;
+}
+
+export function parseTitleLinks(html: string, rcwUrl: string = RCW_URL): RCWLink[] {
+  const $ = cheerio.load(html);
+
+  // Find all title links
+  const titleLinks: RCWLink[] = [];
+
+  $('a').each((_, element) => {
+    const href = $(element).attr('href');
+    const text = $(element).text().trim();
+
+    // Match title links like "default.aspx?cite=1" or "default.aspx?cite=1A"
+    if (href && /default\.aspx\?cite=\d+[A-Z]?$/i.test(href)) {
+      const match = href.match(/cite=(\d+[A-Z]?)$/i);
+      if (match) {
+        titleLinks.push({
+          num: match[1],
+          name: text,
+          url: `${rcwUrl}${href}`
+        });
+      }
+    }
+  });
+
+  return titleLinks;
+}
+
+export function parseChapterLinks(html: string, titleNum: string, rcwUrl: string = RCW_URL): RCWLink[] {
+  const $ = cheerio.load(html);
+
+  // Find all chapter links within this title
+  const chapterLinks: RCWLink[] = [];
+
+  $('a').each((_, element) => {
+    const href = $(element).attr('href');
+    const text = $(element).text().trim();
+
+    // Skip PDF links
+    if (href && href.includes('pdf=true')) return;
+
+    // Match chapter links like "default.aspx?cite=1.01" or absolute URLs
+    const chapterPattern = new RegExp(`cite=${titleNum}\\.\\d+(?:\\.\\d+)?`, 'i');
+    if (href && chapterPattern.test(href)) {
+      const match = href.match(/cite=([\d.]+[A-Z]?)/i);
+      if (match) {
+        // Handle both relative and absolute URLs
+        const url = href.startsWith('http') ? href : `${rcwUrl}${href}`;
+        chapterLinks.push({
+          num: match[1],
+          name: text,
+          url: url
+        });
+      }
+    }
+  });
+
+  return chapterLinks;
+}
+
+export class RCWScraper {
   private db: Database.Database;
   private insertStmt: Database.Statement;
+  private deleteStaleStmt: Database.Statement;
   private updateProgressStmt: Database.Statement;
+  private progress = new Map<string, string>();
+  private rcwUrl: string;
+  private delayMs: number;
 
-  constructor() {
-    this.db = new Database(DB_PATH);
+  constructor(options: RCWScraperOptions = {}) {
+    this.rcwUrl = options.rcwUrl ?? RCW_URL;
+    this.delayMs = options.delayMs ?? DELAY_MS;
+    this.db = new Database(options.dbPath ?? DB_PATH);
     this.insertStmt = this.db.prepare(`
       INSERT OR REPLACE INTO rcw (
-        citation, title_num, chapter_num, section_num,
+        citation, variant, title_num, chapter_num, section_num,
         title_name, chapter_name, section_name, full_text,
-        effective_date, last_amended, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+        subsections, history_note, notes, status, status_target, status_note,
+        effective_date, effective_until, last_amended, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    `);
+
+    // Texts no longer on the page, e.g. the old one once an amendment is in force
+    this.deleteStaleStmt = this.db.prepare(`
+      DELETE FROM rcw WHERE citation = ? AND variant NOT IN (SELECT value FROM json_each(?))
     `);
     
     this.updateProgressStmt = this.db.prepare(`
-      INSERT OR REPLACE INTO scraper_progress (type, title_num, chapter_num, status, error_message, updated_at)
+      INSERT INTO scraper_progress (type, title_num, chapter_num, status, error_message, updated_at)
       VALUES ('RCW', ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(type, title_num, chapter_num) DO UPDATE SET
+        status = excluded.status,
+        error_message = excluded.error_message,
+        updated_at = CURRENT_TIMESTAMP
     `);
   }
 
-  async scrapeAllTitles(): Promise<void> {
-    console.log('Starting RCW scraper...');
+  async scrapeAllTitles(mode: ScrapeMode = 'full'): Promise<void> {
+    console.log(`Starting RCW scraper${mode === 'full' ? '' : ` (${mode})`}...`);
+    this.loadProgress();
     console.log('Fetching list of titles...');
 
     try {
-      const response = await axios.get(RCW_URL);
-      const $ = cheerio.load(response.data);
-      
-      // Find all title links
-      const titleLinks: { num: string; name: string; url: string }[] = [];
-      
-      $('a').each((_, element) => {
-        const href = $(element).attr('href');
-        const text = $(element).text().trim();
-        
-        // Match title links like "default.aspx?cite=1" or "default.aspx?cite=1A"
-        if (href && /default\.aspx\?cite=\d+[A-Z]?$/i.test(href)) {
-          const match = href.match(/cite=(\d+[A-Z]?)$/i);
-          if (match) {
-            titleLinks.push({
-              num: match[1],
-              name: text,
-              url: `${RCW_URL}${href}`
-            });
-          }
-        }
-      });
+      const response = await axios.get(this.rcwUrl);
+      const titleLinks = parseTitleLinks(response.data, this.rcwUrl)
+        .filter(title => this.shouldScrape(mode, title.num, ''));
 
       console.log(`Found ${titleLinks.length} titles to scrape`);
 
       // Process each title
       for (const title of titleLinks) {
         console.log(`\nProcessing Title ${title.num}: ${title.name}`);
-        await this.scrapeTitle(title.num, title.name, title.url);
-        await delay(DELAY_MS);
+        await this.scrapeTitle(title.num, title.name, title.url, mode);
+        await delay(this.delayMs);
       }
 
       console.log('\nRCW scraping completed!');
@@ -89,53 +166,34 @@ class RCWScraper {
     }
   }
 
-  async scrapeTitle(titleNum: string, titleName: string, titleUrl: string): Promise<void> {
+  async scrapeTitle(titleNum: string, titleName: string, titleUrl: string, mode: ScrapeMode = 'full'): Promise<void> {
     try {
       const response = await axios.get(titleUrl);
-      const $ = cheerio.load(response.data);
-      
-      // Find all chapter links within this title
-      const chapterLinks: { num: string; name: string; url: string }[] = [];
-      
-      $('a').each((_, element) => {
-        const href = $(element).attr('href');
-        const text = $(element).text().trim();
-        
-        // Skip PDF links
-        if (href && href.includes('pdf=true')) return;
-        
-        // Match chapter links like "default.aspx?cite=1.01" or absolute URLs
-        const chapterPattern = new RegExp(`cite=${titleNum}\\.\\d+(?:\\.\\d+)?`, 'i');
-        if (href && chapterPattern.test(href)) {
-          const match = href.match(/cite=([\d.]+[A-Z]?)/i);
-          if (match) {
-            // Handle both relative and absolute URLs
-            const url = href.startsWith('http') ? href : `${RCW_URL}${href}`;
-            chapterLinks.push({
-              num: match[1],
-              name: text,
-              url: url
-            });
-          }
-        }
-      });
+      const allChapters = parseChapterLinks(response.data, titleNum, this.rcwUrl);
+      const chapterLinks = allChapters.filter(chapter => this.shouldScrape(mode, titleNum, chapter.num));
 
-      console.log(`  Found ${chapterLinks.length} chapters in Title ${titleNum}`);
+      console.log(`  Found ${allChapters.length} chapters in Title ${titleNum}, ${chapterLinks.length} to scrape`);
 
-      // Process chapters with rate limiting
-      const chapterPromises = chapterLinks.map(chapter => 
-        limit(async () => {
-          await this.scrapeChapter(titleNum, titleName, chapter.num, chapter.name, chapter.url);
-          await delay(DELAY_MS);
-        })
-      );
+      // Chapters run one at a time; the rate limiter is shared with their sections
+      for (const chapter of chapterLinks) {
+        await this.scrapeChapter(titleNum, titleName, chapter.num, chapter.name, chapter.url);
+        await delay(this.delayMs);
+      }
 
-      await Promise.all(chapterPromises);
-      
-      this.updateProgressStmt.run(titleNum, null, 'completed', null);
+      // Chapters skipped in this run may still carry errors from an earlier
+      // one; the title is only completed once every chapter is
+      const failed = allChapters.filter(chapter => this.progress.get(chapter.num) === 'error').length;
+      const unscraped = allChapters.filter(chapter => !this.progress.has(chapter.num)).length;
+      if (failed > 0) {
+        this.updateProgressStmt.run(titleNum, '', 'error', `${failed} chapters failed`);
+      } else if (unscraped > 0) {
+        this.updateProgressStmt.run(titleNum, '', 'error', `${unscraped} chapters not scraped`);
+      } else {
+        this.updateProgressStmt.run(titleNum, '', 'completed', null);
+      }
     } catch (error) {
       console.error(`Error scraping title ${titleNum}:`, error);
-      this.updateProgressStmt.run(titleNum, null, 'error', (error as Error).message);
+      this.updateProgressStmt.run(titleNum, '', 'error', (error as Error).message);
     }
   }
 
@@ -145,7 +203,7 @@ class RCWScraper {
     chapterNum: string,
     chapterName: string,
     chapterUrl: string
-  ): Promise<void> {
+  ): Promise<boolean> {
     try {
       const response = await axios.get(chapterUrl);
       const $ = cheerio.load(response.data);
@@ -166,7 +224,7 @@ class RCWScraper {
           const match = href.match(/cite=([\d.]+)/);
           if (match && !sectionLinks.find(s => s.num === match[1])) {
             // Handle both relative and absolute URLs
-            const url = href.startsWith('http') ? href : `${RCW_URL}${href}`;
+            const url = href.startsWith('http') ? href : `${this.rcwUrl}${href}`;
             sectionLinks.push({
               num: match[1],
               name: text,
@@ -181,21 +239,31 @@ class RCWScraper {
       // Process sections with rate limiting
       const sectionPromises = sectionLinks.map(section =>
         limit(async () => {
-          await this.scrapeSection(
+          const ok = await this.scrapeSection(
             titleNum, titleName,
             chapterNum, chapterName,
             section.num, section.name, section.url
           );
-          await delay(DELAY_MS);
+          await delay(this.delayMs);
+          return ok;
         })
       );
 
-      await Promise.all(sectionPromises);
-      
-      this.updateProgressStmt.run(null, chapterNum, 'completed', null);
+      const results = await Promise.all(sectionPromises);
+      const failed = results.filter(ok => !ok).length;
+
+      // A chapter only counts as completed when every section was saved
+      if (failed > 0) {
+        this.setProgress(titleNum, chapterNum, 'error', `${failed} of ${sectionLinks.length} sections failed`);
+        return false;
+      }
+
+      this.setProgress(titleNum, chapterNum, 'completed', null);
+      return true;
     } catch (error) {
       console.error(`Error scraping chapter ${chapterNum}:`, error);
-      this.updateProgressStmt.run(null, chapterNum, 'error', (error as Error).message);
+      this.setProgress(titleNum, chapterNum, 'error', (error as Error).message);
+      return false;
     }
   }
 
@@ -207,59 +275,104 @@ class RCWScraper {
     sectionNum: string,
     sectionName: string,
     sectionUrl: string
-  ): Promise<void> {
+  ): Promise<boolean> {
     try {
       console.log(`      Scraping section ${sectionNum}...`);
       const response = await axios.get(sectionUrl);
-      const $ = cheerio.load(response.data);
-      
-      // Extract the full text of the section
-      let fullText = '';
-      
-      // Remove all script and style tags first
-      $('script, style, nav, .navigation, .breadcrumb, .footer, .header').remove();
-      
-      // Try to get just the body text
-      fullText = $('body').text()
-        .replace(/\s+/g, ' ')
-        .replace(/\n{3,}/g, '\n\n')
-        .trim();
-
-      // Make sure we have content
-      if (!fullText || fullText.length < 50) {
-        console.warn(`      Warning: Section ${sectionNum} has very little content (${fullText.length} chars)`);
-      }
+      const variants = parseSectionVariants(response.data, sectionNum);
 
-      // Extract effective date if present
-      let effectiveDate: string | undefined;
-      const effectiveDateMatch = fullText.match(/\[(\d{4}) c \d+ § \d+(?:; )?([^\]]*)\]/);
-      if (effectiveDateMatch) {
-        effectiveDate = effectiveDateMatch[0];
-      }
+      let saved = 0;
+      this.db.transaction(() => {
+        for (const parsed of variants) {
+          const fullText = parsed.fullText;
 
-      // Save to database
-      const result = this.insertStmt.run(
-        sectionNum,           // citation
-        titleNum,             // title_num
-        chapterNum,           // chapter_num
-        sectionNum.split('.').pop(), // section_num
-        titleName || '',      // title_name
-        chapterName || '',    // chapter_name
-        sectionName || '',    // section_name
-        fullText || '',       // full_text
-        effectiveDate || null,// effective_date
-        null                  // last_amended
-      );
-      
-      if (result.changes > 0) {
-        console.log(`      ✓ Saved section ${sectionNum}`);
-      } else {
-        console.warn(`      Warning: Failed to save section ${sectionNum}`);
+          // Make sure we have content
+          if (!fullText || fullText.length < 50) {
+            console.warn(`      Warning: Section ${sectionNum} has very little content (${fullText.length} chars)`);
+          }
+
+          // Dates come from the session laws in the history note
+          const sessionLaws = parseHistoryNote(parsed.historyNote || '', parsed.notes);
+
+          // Save to database
+          const result = this.insertStmt.run(
+            sectionNum,           // citation
+            parsed.variant,       // variant
+            titleNum,             // title_num
+            chapterNum,           // chapter_num
+            sectionNum.split('.').pop(), // section_num
+            titleName || '',      // title_name
+            chapterName || '',    // chapter_name
+            parsed.sectionName || sectionName || '', // section_name
+            fullText || '',       // full_text
+            JSON.stringify(parsed.subsections), // subsections
+            parsed.historyNote || null, // history_note
+            parsed.notes || null, // notes
+            parsed.status,        // status
+            parsed.statusTarget || null, // status_target
+            parsed.statusNote || null,   // status_note
+            parsed.effectiveFrom || currentEffectiveDate(sessionLaws) || null, // effective_date
+            parsed.effectiveUntil || null,             // effective_until
+            lastAmended(sessionLaws) || null           // last_amended
+          );
+          saved += result.changes;
+        }
+        this.deleteStaleStmt.run(sectionNum, JSON.stringify(variants.map(parsed => parsed.variant)));
+      })();
+
+      if (saved > 0) {
+        console.log(`      ✓ Saved section ${sectionNum}${variants.length > 1 ? ` (${variants.length} versions)` : ''}`);
+        return true;
       }
 
+      console.warn(`      Warning: Failed to save section ${sectionNum}`);
+      return false;
     } catch (error) {
       console.error(`      Error scraping section ${sectionNum}:`, error);
+      return false;
+    }
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private loadProgress(): void {
+    const rows = this.db.prepare(`
+      SELECT title_num, chapter_num, status FROM scraper_progress WHERE type = 'RCW'
+    `).all() as Array<{ title_num: string; chapter_num: string; status: string }>;
+
+    this.progress.clear();
+    for (const row of rows) {
+      this.progress.set(row.chapter_num || `title:${row.title_num}`, row.status);
+    }
+  }
+
+  private setProgress(titleNum: string, chapterNum: string, status: string, errorMessage: string | null): void {
+    this.updateProgressStmt.run(titleNum, chapterNum, status, errorMessage);
+    this.progress.set(chapterNum, status);
+  }
+
+  /**
+   * Decide from the recorded progress whether a title (chapterNum '') or a
+   * chapter needs scraping in the given mode.
+   */
+  private shouldScrape(mode: ScrapeMode, titleNum: string, chapterNum: string): boolean {
+    if (mode === 'full') return true;
+
+    const status = this.progress.get(chapterNum || `title:${titleNum}`);
+    if (mode === 'resume') return status !== 'completed';
+
+    // only-errors: titles are fetched when they or any of their chapters
+    // failed. A title whose chapter list failed has no chapter rows, so all
+    // of its chapters not yet completed are retried.
+    if (chapterNum) {
+      return status === 'error' || (this.progress.get(`title:${titleNum}`) === 'error' && status !== 'completed');
     }
+    if (status === 'error') return true;
+    return [...this.progress.entries()].some(([key, value]) =>
+      value === 'error' && key.startsWith(`${titleNum}.`)
+    );
   }
 
   private printStats(): void {
@@ -268,11 +381,24 @@ class RCWScraper {
     `).get() as any;
     
     console.log(`\nScraping complete! Total RCW sections: ${stats.count}`);
+
+    const errors = this.db.prepare(`
+      SELECT COUNT(*) as count FROM scraper_progress
+      WHERE type = 'RCW' AND chapter_num != '' AND status = 'error'
+    `).get() as any;
+    if (errors.count > 0) {
+      console.log(`${errors.count} chapters failed; rerun with --only-errors to retry them`);
+    }
   }
 }
 
 // Run the scraper
 if (import.meta.url === `file://${process.argv[1]}`) {
+  const args = process.argv.slice(2);
+  const mode: ScrapeMode = args.includes('--only-errors') ? 'only-errors'
+    : args.includes('--resume') ? 'resume'
+    : 'full';
+
   const scraper = new RCWScraper();
-  scraper.scrapeAllTitles().catch(console.error);
+  scraper.scrapeAllTitles(mode).catch(console.error);
 }
\ No newline at end of file
@@ -0,0 +1,102 @@
+import * as cheerio from 'cheerio';
+import { Subsection } from '../types.js';
+import { buildSubsectionTree } from '../subsections.js';
+import { StatusInfo, detectStatus } from '../status.js';
+import { EffectiveWindow, parseEffectiveWindow } from '../history.js';
+
+export interface ParsedSection extends StatusInfo, EffectiveWindow {
+  sectionName: string;
+  fullText: string;           // statutory body only, one paragraph per line
+  subsections: Subsection[];
+  historyNote?: string;       // bracketed session law / WSR history, without brackets
+  notes?: string;             // text under the NOTES: heading
+}
+
+const CHROME_SELECTORS = 'script, style, nav, .navigation, .breadcrumb, .footer, .header, .menu';
+
+function clean(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Parse an RCW or WAC section page from app.leg.wa.gov into its statutory
+ * body, history note and notes. Only the section content is read, so site
+ * navigation never reaches full_text.
+ */
+export function parseSectionPage(html: string, citation: string): ParsedSection {
+  return parseSectionVariants(html, citation)[0];
+}
+
+/**
+ * A section with an amendment taking effect later is shown as two texts on
+ * one page, each under its own citation heading and catchline ("(Effective
+ * until July 1, 2026.)", "(Effective July 1, 2026.)"). Returns one parsed
+ * section per text, in page order.
+ */
+export function parseSectionVariants(html: string, citation: string): ParsedSection[] {
+  const $ = cheerio.load(html);
+  $(CHROME_SELECTORS).remove();
+
+  const content = ['#ContentPlaceHolder1_pnlExpanded', '#contentWrapper']
+    .map(selector => $(selector).first())
+    .find(element => element.length > 0) || $('body');
+
+  interface Segment { sectionName: string; body: string[]; notes: string[]; historyNote?: string; inNotes: boolean }
+  const segments: Segment[] = [];
+  let segment: Segment = { sectionName: '', body: [], notes: [], inNotes: false };
+  segments.push(segment);
+
+  // Walk the leaf text blocks in document order
+  content.find('div, p, h3, h4').each((_, element) => {
+    const el = $(element);
+    const text = clean(el.text());
+    if (!text) return;
+
+    if (element.tagName === 'h3' || element.tagName === 'h4') {
+      if (/^NOTES:?$/i.test(text)) {
+        segment.inNotes = true;
+      } else if (text.includes(citation)) {
+        // A repeated citation heading starts the next text of the section
+        if (segment.body.length > 0 || segment.historyNote) {
+          segment = { sectionName: '', body: [], notes: [], inNotes: false };
+          segments.push(segment);
+        }
+      } else if (!segment.sectionName) {
+        // The citation heading is followed by the catchline heading
+        segment.sectionName = text;
+      }
+      return;
+    }
+    if (el.children('div, p, h3, h4').length > 0) return;
+    if (/^NOTES:?$/i.test(text)) {
+      segment.inNotes = true;
+      return;
+    }
+
+    if (segment.inNotes) {
+      segment.notes.push(text);
+    } else if (!segment.historyNote && /^\[.*\]$/.test(text)) {
+      segment.historyNote = text.slice(1, -1).trim();
+    } else {
+      segment.body.push(text);
+    }
+  });
+
+  const pageTitle = clean($('title').text().replace(/^(RCW|WAC)\s+[\dA-Z.-]+\s*[:—–-]?/, ''));
+
+  return segments.map(({ sectionName, body, notes, historyNote }) => {
+    sectionName = sectionName || pageTitle;
+    const { subsections } = buildSubsectionTree(body);
+    const fullText = body.join('\n');
+
+    return {
+      sectionName,
+      fullText,
+      subsections,
+      historyNote,
+      notes: notes.length > 0 ? notes.join('\n') : undefined,
+      ...detectStatus({ sectionName, fullText, historyNote }),
+      ...parseEffectiveWindow(sectionName)
+    };
+  });
+}
@@ -3,6 +3,8 @@ import * as cheerio from 'cheerio';
 import Database from 'better-sqlite3';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import { parseSectionVariants } from './section-parser.js';
+import { currentEffectiveDate, lastAmended, parseHistoryNote } from '../history.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -15,15 +17,22 @@ const DB_PATH = join(__dirname, '../../data/washington-laws.db');
 class SimpleRCWScraper {
   private db: Database.Database;
   private insertStmt: Database.Statement;
+  private deleteStaleStmt: Database.Statement;
   
   constructor() {
     this.db = new Database(DB_PATH);
     this.insertStmt = this.db.prepare(`
       INSERT OR REPLACE INTO rcw (
-        citation, title_num, chapter_num, section_num,
+        citation, variant, title_num, chapter_num, section_num,
         title_name, chapter_name, section_name, full_text,
-        updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+        subsections, history_note, notes, status, status_target, status_note,
+        effective_date, effective_until, last_amended, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    `);
+
+    // Texts no longer on the page, e.g. the old one once an amendment is in force
+    this.deleteStaleStmt = this.db.prepare(`
+      DELETE FROM rcw WHERE citation = ? AND variant NOT IN (SELECT value FROM json_each(?))
     `);
   }
 
@@ -136,50 +145,35 @@ class SimpleRCWScraper {
     try {
       const url = `${RCW_URL}default.aspx?cite=${sectionNum}`;
       const response = await axios.get(url);
-      const $ = cheerio.load(response.data);
-      
-      // Extract section name from title or heading
-      const pageTitle = $('title').text();
-      const sectionName = pageTitle.replace(/^RCW [\d.]+/, '').replace(/[—–-]/, '').trim() || '';
-      
-      // Remove all navigation and script elements
-      $('script, style, nav, .navigation, .breadcrumb, .footer, .header, .menu').remove();
-      
-      // Get the main text content
-      let fullText = $('body').text()
-        .replace(/\r\n/g, '\n')
-        .replace(/\n{3,}/g, '\n\n')
-        .replace(/\s+/g, ' ')
-        .trim();
-      
-      // Try to extract just the law text (remove menu items, etc.)
-      const startMarkers = ['RCW ' + sectionNum, sectionNum + ' >>', 'PDF'];
-      for (const marker of startMarkers) {
-        const idx = fullText.indexOf(marker);
-        if (idx > 0) {
-          fullText = fullText.substring(idx);
-          break;
-        }
-      }
-      
-      // Clean up common navigation text
-      fullText = fullText
-        .replace(/Menu Website Search.*?PDF/g, '')
-        .replace(/Beginning of Chapter.*?>>/g, '')
-        .replace(/<<.*?>>/g, '')
-        .trim();
+      const variants = parseSectionVariants(response.data, sectionNum);
       
       // Save to database
-      this.insertStmt.run(
-        sectionNum,
-        titleNum,
-        chapterNum,
-        sectionNum.split('.').pop() || '',
-        titleName,
-        chapterName,
-        sectionName,
-        fullText
-      );
+      this.db.transaction(() => {
+        for (const parsed of variants) {
+          const sessionLaws = parseHistoryNote(parsed.historyNote || '', parsed.notes);
+          this.insertStmt.run(
+            sectionNum,
+            parsed.variant,
+            titleNum,
+            chapterNum,
+            sectionNum.split('.').pop() || '',
+            titleName,
+            chapterName,
+            parsed.sectionName,
+            parsed.fullText,
+            JSON.stringify(parsed.subsections),
+            parsed.historyNote || null,
+            parsed.notes || null,
+            parsed.status,
+            parsed.statusTarget || null,
+            parsed.statusNote || null,
+            parsed.effectiveFrom || currentEffectiveDate(sessionLaws) || null,
+            parsed.effectiveUntil || null,
+            lastAmended(sessionLaws) || null
+          );
+        }
+        this.deleteStaleStmt.run(sectionNum, JSON.stringify(variants.map(parsed => parsed.variant)));
+      })();
       
     } catch (error) {
       console.error(`Error scraping section ${sectionNum}:`, (error as Error).message);
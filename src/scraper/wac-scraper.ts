@@ -0,0 +1,322 @@
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+import Database from 'better-sqlite3';
+import pLimit from 'p-limit';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { WACSection } from '../types.js';
+import { ParsedSection, parseSectionPage as parseSectionContent } from './section-parser.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const BASE_URL = 'https://app.leg.wa.gov';
+const WAC_URL = `${BASE_URL}/WAC/`;
+const DB_PATH = join(__dirname, '../../data/washington-laws.db');
+
+// Rate limiting to be respectful
+const limit = pLimit(2); // Max 2 concurrent requests
+const DELAY_MS = 500; // Delay between requests
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export interface WACLink {
+  num: string;
+  name: string;
+  url: string;
+}
+
+export interface WACScraperOptions {
+  dbPath?: string;
+  wacUrl?: string;
+  delayMs?: number;
+}
+
+// WAC numbers: title "296" or "132A", chapter "296-24", section "296-24-12005"
+const TITLE_NUM = '\\d+[A-Z]?';
+const CHAPTER_NUM = `${TITLE_NUM}-\\d+[A-Z]?`;
+const SECTION_NUM = `${CHAPTER_NUM}-\\d+[A-Z]?`;
+
+function collectLinks($: cheerio.CheerioAPI, pattern: RegExp, wacUrl: string): WACLink[] {
+  const links: WACLink[] = [];
+
+  $('a').each((_, element) => {
+    const href = $(element).attr('href');
+    if (!href || href.includes('pdf=true') || href.includes('dispo')) return;
+
+    const match = href.match(pattern);
+    if (!match || links.find(l => l.num === match[1])) return;
+
+    // Listing pages put the number in the link and the name in the next cell
+    const linkText = $(element).text().replace(/\s+/g, ' ').trim();
+    const rowText = $(element).closest('tr').text().replace(/\s+/g, ' ').trim();
+    const name = rowText && rowText !== linkText
+      ? rowText.replace(linkText, '').trim()
+      : linkText;
+
+    links.push({
+      num: match[1],
+      name,
+      url: href.startsWith('http') ? href : `${wacUrl}${href}`
+    });
+  });
+
+  return links;
+}
+
+export function parseTitleLinks(html: string, wacUrl: string = WAC_URL): WACLink[] {
+  return collectLinks(cheerio.load(html), new RegExp(`cite=(${TITLE_NUM})$`, 'i'), wacUrl);
+}
+
+export function parseChapterLinks(html: string, titleNum: string, wacUrl: string = WAC_URL): WACLink[] {
+  const links = collectLinks(cheerio.load(html), new RegExp(`cite=(${CHAPTER_NUM})$`, 'i'), wacUrl);
+  return links.filter(l => l.num.startsWith(`${titleNum}-`));
+}
+
+export function parseSectionLinks(html: string, chapterNum: string, wacUrl: string = WAC_URL): WACLink[] {
+  const links = collectLinks(cheerio.load(html), new RegExp(`cite=(${SECTION_NUM})$`, 'i'), wacUrl);
+  return links.filter(l => l.num.startsWith(`${chapterNum}-`));
+}
+
+/**
+ * Convert the "effective 8/21/20" dates used in WAC history notes to ISO format.
+ */
+export function parseWACDate(date: string): string | undefined {
+  const match = date.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (!match) return undefined;
+
+  let year = parseInt(match[3]);
+  if (match[3].length === 2) {
+    // WSR filings start in the late 1970s
+    year += year >= 70 ? 1900 : 2000;
+  }
+
+  return `${year}-${match[1].padStart(2, '0')}-${match[2].padStart(2, '0')}`;
+}
+
+export function parseSectionPage(html: string, citation: string): ParsedSection & { effectiveDate?: string } {
+  const parsed = parseSectionContent(html, citation);
+
+  // The history note lists each filing; the last one is the current version
+  let effectiveDate: string | undefined;
+  const effectiveMatches = [...(parsed.historyNote || '').matchAll(/effective (\d{1,2}\/\d{1,2}\/\d{2,4})/g)];
+  if (effectiveMatches.length > 0) {
+    effectiveDate = parseWACDate(effectiveMatches[effectiveMatches.length - 1][1]);
+  }
+
+  return { ...parsed, effectiveDate };
+}
+
+export class WACScraper {
+  private db: Database.Database;
+  private insertStmt: Database.Statement;
+  private updateProgressStmt: Database.Statement;
+  private wacUrl: string;
+  private delayMs: number;
+
+  constructor(options: WACScraperOptions = {}) {
+    this.wacUrl = options.wacUrl ?? WAC_URL;
+    this.delayMs = options.delayMs ?? DELAY_MS;
+    this.db = new Database(options.dbPath ?? DB_PATH);
+    this.insertStmt = this.db.prepare(`
+      INSERT OR REPLACE INTO wac (
+        citation, title_num, chapter_num, section_num,
+        title_name, chapter_name, section_name, full_text,
+        subsections, history_note, notes, status, status_target, status_note,
+        effective_date, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    `);
+
+    this.updateProgressStmt = this.db.prepare(`
+      INSERT INTO scraper_progress (type, title_num, chapter_num, status, error_message, updated_at)
+      VALUES ('WAC', ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(type, title_num, chapter_num) DO UPDATE SET
+        status = excluded.status,
+        error_message = excluded.error_message,
+        updated_at = CURRENT_TIMESTAMP
+    `);
+  }
+
+  async scrapeAllTitles(): Promise<void> {
+    console.log('Starting WAC scraper...');
+    console.log('Fetching list of titles...');
+
+    try {
+      const response = await axios.get(this.wacUrl);
+      const titleLinks = parseTitleLinks(response.data, this.wacUrl);
+
+      console.log(`Found ${titleLinks.length} titles to scrape`);
+
+      for (const title of titleLinks) {
+        console.log(`\nProcessing Title ${title.num}: ${title.name}`);
+        await this.scrapeTitle(title.num, title.name, title.url);
+        await delay(this.delayMs);
+      }
+
+      console.log('\nWAC scraping completed!');
+      this.printStats();
+    } catch (error) {
+      console.error('Error scraping titles:', error);
+      throw error;
+    } finally {
+      this.db.close();
+    }
+  }
+
+  async scrapeTitle(titleNum: string, titleName: string, titleUrl: string): Promise<void> {
+    try {
+      const response = await axios.get(titleUrl);
+      const chapterLinks = parseChapterLinks(response.data, titleNum, this.wacUrl);
+
+      console.log(`  Found ${chapterLinks.length} chapters in Title ${titleNum}`);
+
+      // Chapters run one at a time; the rate limiter is shared with their sections
+      let failed = 0;
+      for (const chapter of chapterLinks) {
+        const ok = await this.scrapeChapter(titleNum, titleName, chapter.num, chapter.name, chapter.url);
+        if (!ok) failed++;
+        await delay(this.delayMs);
+      }
+
+      if (failed > 0) {
+        this.updateProgressStmt.run(titleNum, '', 'error', `${failed} chapters failed`);
+      } else {
+        this.updateProgressStmt.run(titleNum, '', 'completed', null);
+      }
+    } catch (error) {
+      console.error(`Error scraping title ${titleNum}:`, error);
+      this.updateProgressStmt.run(titleNum, '', 'error', (error as Error).message);
+    }
+  }
+
+  async scrapeChapter(
+    titleNum: string,
+    titleName: string,
+    chapterNum: string,
+    chapterName: string,
+    chapterUrl: string
+  ): Promise<boolean> {
+    try {
+      const response = await axios.get(chapterUrl);
+      const sectionLinks = parseSectionLinks(response.data, chapterNum, this.wacUrl);
+
+      console.log(`    Chapter ${chapterNum}: ${sectionLinks.length} sections`);
+
+      const sectionPromises = sectionLinks.map(section =>
+        limit(async () => {
+          const ok = await this.scrapeSection(
+            titleNum, titleName,
+            chapterNum, chapterName,
+            section.num, section.name, section.url
+          );
+          await delay(this.delayMs);
+          return ok;
+        })
+      );
+
+      const results = await Promise.all(sectionPromises);
+      const failed = results.filter(ok => !ok).length;
+
+      if (failed > 0) {
+        this.updateProgressStmt.run(titleNum, chapterNum, 'error', `${failed} of ${sectionLinks.length} sections failed`);
+        return false;
+      }
+
+      this.updateProgressStmt.run(titleNum, chapterNum, 'completed', null);
+      return true;
+    } catch (error) {
+      console.error(`Error scraping chapter ${chapterNum}:`, error);
+      this.updateProgressStmt.run(titleNum, chapterNum, 'error', (error as Error).message);
+      return false;
+    }
+  }
+
+  async scrapeSection(
+    titleNum: string,
+    titleName: string,
+    chapterNum: string,
+    chapterName: string,
+    sectionNum: string,
+    sectionName: string,
+    sectionUrl: string
+  ): Promise<boolean> {
+    try {
+      console.log(`      Scraping section ${sectionNum}...`);
+      const response = await axios.get(sectionUrl);
+      const parsed = parseSectionPage(response.data, sectionNum);
+
+      if (!parsed.fullText || parsed.fullText.length < 50) {
+        console.warn(`      Warning: Section ${sectionNum} has very little content (${parsed.fullText.length} chars)`);
+      }
+
+      return this.saveSection({
+        citation: sectionNum,
+        titleNum,
+        chapterNum,
+        sectionNum: sectionNum.split('-').pop() || '',
+        titleName,
+        chapterName,
+        sectionName: parsed.sectionName || sectionName,
+        fullText: parsed.fullText,
+        subsections: parsed.subsections,
+        historyNote: parsed.historyNote,
+        notes: parsed.notes,
+        status: parsed.status,
+        statusTarget: parsed.statusTarget,
+        statusNote: parsed.statusNote,
+        effectiveDate: parsed.effectiveDate
+      });
+    } catch (error) {
+      console.error(`      Error scraping section ${sectionNum}:`, error);
+      return false;
+    }
+  }
+
+  saveSection(section: WACSection): boolean {
+    const result = this.insertStmt.run(
+      section.citation,
+      section.titleNum,
+      section.chapterNum,
+      section.sectionNum,
+      section.titleName || '',
+      section.chapterName || '',
+      section.sectionName || '',
+      section.fullText || '',
+      section.subsections ? JSON.stringify(section.subsections) : null,
+      section.historyNote || null,
+      section.notes || null,
+      section.status || 'active',
+      section.statusTarget || null,
+      section.statusNote || null,
+      section.effectiveDate || null
+    );
+
+    if (result.changes > 0) {
+      console.log(`      ✓ Saved section ${section.citation}`);
+      return true;
+    }
+
+    console.warn(`      Warning: Failed to save section ${section.citation}`);
+    return false;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private printStats(): void {
+    const stats = this.db.prepare(`
+      SELECT COUNT(*) as count FROM wac
+    `).get() as any;
+
+    console.log(`\nScraping complete! Total WAC sections: ${stats.count}`);
+  }
+}
+
+// Run the scraper
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const scraper = new WACScraper();
+  scraper.scrapeAllTitles().catch(console.error);
+}
@@ -0,0 +1,220 @@
+import { MAX_SYNONYM_WORDS, synonymsFor } from './synonyms.js';
+
+type Token =
+  | { kind: 'phrase'; text: string }
+  | { kind: 'word'; text: string }
+  | { kind: 'prefix'; text: string }
+  | { kind: 'near'; terms: string[]; distance?: number }
+  | { kind: 'operator'; text: 'AND' | 'OR' | 'NOT' }
+  | { kind: 'open' }
+  | { kind: 'close' };
+
+export interface QueryExpansion {
+  term: string;               // as written in the query
+  synonyms: string[];         // what else was searched for it
+}
+
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+// Words too common to say anything about a question's subject
+export const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'by', 'can', 'could', 'do', 'does', 'for',
+  'from', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'may', 'me', 'my',
+  'of', 'on', 'or', 'our', 'shall', 'should', 'so', 'such', 'than', 'that', 'the', 'their',
+  'them', 'there', 'these', 'they', 'this', 'to', 'under', 'was', 'we', 'were', 'what', 'when',
+  'where', 'which', 'who', 'whom', 'why', 'will', 'with', 'would', 'you', 'your'
+]);
+
+// FTS5 strings are double-quoted, with embedded quotes doubled
+function quote(text: string): string {
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const rest = text.slice(i);
+    const space = rest.match(/^\s+/);
+    if (space) {
+      i += space[0].length;
+      continue;
+    }
+
+    // NEAR(term term, 10); the group is read as a whole
+    const near = rest.match(/^NEAR\(([^)]*)\)?/);
+    if (near) {
+      const [inner, distance] = near[1].split(/,\s*(?=\d+\s*$)/);
+      const terms = [...inner.matchAll(/"([^"]*)"?|[^\s"]+/g)]
+        .map(match => match[1] ?? match[0])
+        .filter(term => WORD_CHAR.test(term));
+      tokens.push({ kind: 'near', terms, ...(distance ? { distance: parseInt(distance) } : {}) });
+      i += near[0].length;
+      continue;
+    }
+
+    // A quoted phrase; an unbalanced quote runs to the end of the query
+    if (rest[0] === '"') {
+      const end = rest.indexOf('"', 1);
+      const phrase = end === -1 ? rest.slice(1) : rest.slice(1, end);
+      if (WORD_CHAR.test(phrase)) tokens.push({ kind: 'phrase', text: phrase.trim() });
+      i += end === -1 ? rest.length : end + 1;
+      continue;
+    }
+
+    if (rest[0] === '(' || rest[0] === ')') {
+      tokens.push({ kind: rest[0] === '(' ? 'open' : 'close' });
+      i++;
+      continue;
+    }
+
+    const word = rest.match(/^[^\s"()]+/)![0];
+    i += word.length;
+    if (word === 'AND' || word === 'OR' || word === 'NOT') {
+      tokens.push({ kind: 'operator', text: word });
+    } else if (/^[^*]*[\p{L}\p{N}][^*]*\*$/u.test(word)) {
+      tokens.push({ kind: 'prefix', text: word.slice(0, -1) });
+    } else if (WORD_CHAR.test(word)) {
+      tokens.push({ kind: 'word', text: word.replace(/\*/g, '') });
+    }
+  }
+
+  return tokens;
+}
+
+// "driving under the influence" written without quotes is looked up as one term
+function joinSynonymPhrases(tokens: Token[]): Token[] {
+  const joined: Token[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    let length = Math.min(MAX_SYNONYM_WORDS, tokens.length - i);
+    for (; length > 1; length--) {
+      const run = tokens.slice(i, i + length);
+      if (!run.every(token => token.kind === 'word')) continue;
+      const text = run.map(token => (token as { text: string }).text).join(' ');
+      if (synonymsFor(text).length > 0) {
+        joined.push({ kind: 'phrase', text });
+        break;
+      }
+    }
+    if (length > 1) {
+      i += length - 1;
+    } else {
+      joined.push(tokens[i]);
+    }
+  }
+  return joined;
+}
+
+function operand(token: Token, expansions?: QueryExpansion[]): string | null {
+  switch (token.kind) {
+    case 'phrase':
+    case 'word': {
+      const synonyms = expansions ? synonymsFor(token.text) : [];
+      if (synonyms.length === 0) return quote(token.text);
+      expansions!.push({ term: token.text, synonyms });
+      return `(${[token.text, ...synonyms].map(quote).join(' OR ')})`;
+    }
+    case 'prefix':
+      return `${quote(token.text)}*`;
+    case 'near':
+      if (token.terms.length === 0) return null;
+      const distance = token.distance !== undefined ? `, ${token.distance}` : '';
+      return `NEAR(${token.terms.map(quote).join(' ')}${distance})`;
+    default:
+      return null;
+  }
+}
+
+// expression := operand ((AND | OR | NOT)? operand)*
+// where a missing operator is AND
+function parseExpression(
+  tokens: Token[],
+  position: { i: number },
+  nested: boolean,
+  expansions?: QueryExpansion[]
+): string {
+  const parts: string[] = [];
+  let pendingOperator: string | null = null;
+  let excludeNext = false;
+
+  while (position.i < tokens.length) {
+    const token = tokens[position.i++];
+
+    if (token.kind === 'operator') {
+      // Operators with nothing on their left are dropped. FTS5's NOT is
+      // binary, so a leading NOT drops the term it excludes as well.
+      if (parts.length > 0) pendingOperator = token.text;
+      else if (token.text === 'NOT') excludeNext = true;
+      continue;
+    }
+    if (token.kind === 'close') {
+      if (nested) break;
+      continue;               // unmatched ")"
+    }
+
+    let term: string | null;
+    if (token.kind === 'open') {
+      const inner = parseExpression(tokens, position, true, expansions);
+      term = inner ? `(${inner})` : null;
+    } else {
+      term = operand(token, expansions);
+    }
+    if (!term) continue;
+    if (excludeNext) {
+      excludeNext = false;
+      continue;
+    }
+
+    // FTS5 rejects an implicit AND before a parenthesised group, so it is
+    // written out
+    if (parts.length > 0) parts.push(pendingOperator || 'AND');
+    parts.push(term);
+    pendingOperator = null;
+  }
+
+  return parts.join(' ');
+}
+
+/**
+ * Turn a user's search text into an FTS5 query that cannot be a syntax
+ * error. Quoted phrases, AND/OR/NOT (in capitals), prefix terms ("veh*"),
+ * NEAR(a b, 10) and parentheses keep their FTS5 meaning; terms with no
+ * operator between them are joined with AND. Every other word is quoted, so
+ * hyphens ("296-24"), apostrophes and colons are searched as text. Dangling
+ * operators, unmatched parentheses and an unclosed quote are repaired rather
+ * than rejected; a leading "NOT x" is left out. Returns '' when nothing
+ * searchable is left.
+ */
+export function translateQuery(text: string): string {
+  return parseExpression(tokenize(text), { i: 0 }, false);
+}
+
+/**
+ * translateQuery, with each term in the synonym dictionary also searched
+ * under its other forms: "DUI" becomes ("DUI" OR "driving under the
+ * influence" OR ...). The expansions applied are returned for reporting.
+ */
+export function expandQuery(text: string): { ftsQuery: string; expansions: QueryExpansion[] } {
+  const expansions: QueryExpansion[] = [];
+  const ftsQuery = parseExpression(joinSynonymPhrases(tokenize(text)), { i: 0 }, false, expansions);
+  return { ftsQuery, expansions };
+}
+
+/**
+ * Every word of the text as a plain term, all required. Used when the
+ * translated query is still rejected.
+ */
+export function plainQuery(text: string): string {
+  return (text.match(/[\p{L}\p{N}]+/gu) || []).map(quote).join(' ');
+}
+
+/**
+ * Any of the text's words, leaving out stopwords, for questions written in
+ * plain English: "can my landlord keep my deposit" -> "landlord" OR "keep"
+ * OR "deposit". bm25 ranks sections that match more of them higher.
+ */
+export function anyTermQuery(text: string): string {
+  const words = (text.match(/[\p{L}\p{N}]+/gu) || []).filter(word => !STOPWORDS.has(word.toLowerCase()));
+  return [...new Set(words)].map(quote).join(' OR ');
+}
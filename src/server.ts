@@ -0,0 +1,1747 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequest,
+  CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequest,
+  ReadResourceRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { LawDatabase } from './database/database.js';
+import { buildSubsectionTree, formatPath, formatSubsection, resolvePinpoint, splitPinpoint } from './subsections.js';
+import {
+  COURT_RULE_SETS,
+  CitationType,
+  formatCitation,
+  formatReference,
+  parseChapterCitation,
+  parseCitation
+} from './citations.js';
+import { Definition, RCWSection, SearchOptions, SectionChange, SectionStatus, SectionVersion, SessionLaw, WACSection } from './types.js';
+import { parseHistoryNote } from './history.js';
+import { countChangedWords, diffWords, formatRedline } from './diff.js';
+import { EmbeddingProvider, loadEmbeddingProvider } from './embeddings.js';
+import { COURT_RULE_SET_CONFIG, loadLocalRuleSets } from './scraper/court-rule-sets.js';
+
+// Loaded on first use of semantic_search; see EMBEDDING_PROVIDER in embeddings.ts
+let embeddingProvider: Promise<EmbeddingProvider> | undefined;
+
+/**
+ * Warn that a section is no longer (or only conditionally) in effect, and
+ * point to where recodified text now lives.
+ */
+function statusWarning(code: 'RCW' | 'WAC', section: Pick<RCWSection | WACSection, 'status' | 'statusTarget' | 'statusNote'>): string {
+  if (!section.status || section.status === 'active') return '';
+
+  const headline: Record<SectionStatus, string> = {
+    active: '',
+    repealed: 'This section has been repealed and is no longer in effect.',
+    recodified: 'This section has been recodified and no longer exists at this citation.',
+    expired: 'This section has expired and is no longer in effect.',
+    contingent: 'This section takes effect or expires only on a contingency; check whether it applies.'
+  };
+
+  let warning = `> **Warning — ${section.status.toUpperCase()}**: ${headline[section.status]}\n`;
+  if (section.statusNote) {
+    warning += `> ${section.statusNote}\n`;
+  }
+  if (section.statusTarget) {
+    warning += `> Now codified as **${code} ${section.statusTarget}**; use get_${code.toLowerCase()} with "${section.statusTarget}".\n`;
+  }
+  return `${warning}\n`;
+}
+
+/**
+ * Answer a pinpoint citation such as "RCW 9A.36.021(1)(c)" with the cited
+ * subsection, preceded by the section heading, the section lead-in and the
+ * text of each enclosing subsection.
+ */
+function pinpointResponse(
+  code: 'RCW' | 'WAC',
+  section: Pick<RCWSection | WACSection, 'citation' | 'sectionName' | 'fullText' | 'subsections' | 'status' | 'statusTarget' | 'statusNote'>,
+  path: string[],
+  asOf?: string
+) {
+  const label = `${code} ${section.citation}${formatPath(path)}`;
+
+  if (!section.subsections) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Subsection structure for ${code} ${section.citation} is not available; rescrape the section to look up ${label}.`,
+        },
+      ],
+    };
+  }
+
+  const match = resolvePinpoint(section, path);
+  if (!match) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${label} not found. ${code} ${section.citation} exists but has no subsection ${formatPath(path)}.`,
+        },
+      ],
+    };
+  }
+
+  let context = match.leadIn ? `${match.leadIn}\n` : '';
+  match.ancestors.forEach((ancestor, depth) => {
+    context += `${'  '.repeat(depth)}(${ancestor.label})${ancestor.text ? ' ' + ancestor.text : ''}\n`;
+  });
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `# ${label}${asOf ? ` (as of ${asOf})` : ''}
+
+${statusWarning(code, section)}**Section**: ${code} ${section.citation}${section.sectionName ? ': ' + section.sectionName : ''}
+${context ? `\n## Context\n\n${context}` : ''}
+## Cited Text
+
+${formatSubsection(match.subsection, match.ancestors.length)}`,
+      },
+    ],
+  };
+}
+
+/**
+ * Normalise the citation given to get_rcw or get_wac. Text that is clearly a
+ * different kind of citation is reported instead of being looked up.
+ */
+function sectionCitation(input: string, type: 'RCW' | 'WAC'): { citation: string; path: string[] } | { error: string } {
+  const parsed = parseCitation(input);
+  if (!parsed) {
+    return splitPinpoint(input);
+  }
+  if (parsed.type !== type) {
+    return { error: `${formatCitation(parsed)} is not a ${type} citation. Use resolve_citation to look up any citation.` };
+  }
+  return { citation: parsed.citation, path: parsed.path };
+}
+
+/**
+ * Key a citation the way the citations table stores it. Court rules are
+ * keyed as "RPC 1.7".
+ */
+function citationTarget(text: string): { type: CitationType; kind: 'section' | 'chapter' | 'rule'; citation: string; label: string } | null {
+  const chapter = parseChapterCitation(text);
+  if (chapter) {
+    return { type: chapter.type, kind: 'chapter', citation: chapter.chapter, label: formatReference(chapter.type, 'chapter', chapter.chapter) };
+  }
+
+  const parsed = parseCitation(text);
+  if (!parsed) return null;
+
+  if (parsed.type === 'COURT_RULE') {
+    const citation = `${parsed.ruleSet} ${parsed.citation}`;
+    return { type: 'COURT_RULE', kind: 'rule', citation, label: formatReference('COURT_RULE', 'rule', citation) };
+  }
+  return { type: parsed.type, kind: 'section', citation: parsed.citation, label: formatReference(parsed.type, 'section', parsed.citation) };
+}
+
+function definitionScope(definition: Definition): string {
+  const separator = definition.type === 'WAC' ? '-' : '.';
+  const parts = definition.citation.split(separator);
+  switch (definition.scope) {
+    case 'section':
+      return `applies within ${definition.type} ${definition.citation}`;
+    case 'chapter':
+      return `applies throughout ${formatReference(definition.type, 'chapter', parts.slice(0, 2).join(separator))}`;
+    case 'title':
+      return `applies throughout ${formatReference(definition.type, 'title', parts[0])}`;
+  }
+}
+
+// Sections with two texts in effect say which one this is and when the other applies
+function variantNotice(rcw: RCWSection): string {
+  const notes: string[] = [];
+  if (rcw.effectiveUntil) {
+    notes.push(`This text is in effect until ${rcw.effectiveUntil}.`);
+  }
+  if (rcw.pendingVersion) {
+    const { effectiveDate, sectionName } = rcw.pendingVersion;
+    notes.push(`A new version${sectionName ? ` ("${sectionName}")` : ''} takes effect on ${effectiveDate}; use get_rcw with as_of "${effectiveDate}" to read it.`);
+  }
+  return notes.length > 0 ? `> **Note**: ${notes.join(' ')}\n\n` : '';
+}
+
+// search_laws cursors carry the offset of the next page and the query they belong to
+function encodeCursor(query: string, offset: number): string {
+  return Buffer.from(JSON.stringify({ q: query, o: offset })).toString('base64url');
+}
+
+function decodeCursor(cursor: string, query: string): number | null {
+  try {
+    const { q, o } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return q === query && Number.isInteger(o) && o >= 0 ? o : null;
+  } catch {
+    return null;
+  }
+}
+
+function describeVersion(version: SectionVersion): string {
+  const effective = version.effectiveFrom
+    ? `in effect from ${version.effectiveFrom}`
+    : `recorded ${version.recordedAt} (effective date unknown)`;
+  const variant = version.variant ? ` (text effective ${version.variant})` : '';
+  return `#${version.id}${variant}, ${effective}${version.supersededAt ? `, replaced ${version.supersededAt}` : ', current version'}`;
+}
+
+/**
+ * Report every section or rule whose text was recorded since `since`, which
+ * defaults to metadata.last_update. update:laws stamps last_update with the
+ * start of its run, so this is what the latest update changed.
+ */
+function changeReport(db: LawDatabase, sinceArg: string | undefined, limit: number) {
+  const since = sinceArg || db.getStatistics().lastUpdate;
+
+  if (!/^\d{4}-\d{2}-\d{2}/.test(since)) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: sinceArg ? `since must be a date in YYYY-MM-DD form, not "${sinceArg}".` : 'The database has no last_update date; pass since instead.',
+        },
+      ],
+    };
+  }
+
+  const changes = db.getChangedSince(since);
+  if (changes.length === 0) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `No changes recorded since ${since}.`,
+        },
+      ],
+    };
+  }
+
+  const label = (change: SectionChange) =>
+    formatReference(change.type, change.type === 'COURT_RULE' ? 'rule' : 'section', change.citation);
+  const amended = changes.filter(change => change.fromId !== null);
+  const added = changes.filter(change => change.fromId === null);
+
+  let response = `# Changes Since ${since}\n\n${amended.length} changed, ${added.length} added\n`;
+
+  for (const change of amended.slice(0, limit)) {
+    const from = db.getSectionVersion(change.fromId!)!;
+    const to = db.getSectionVersion(change.toId)!;
+    const parts = diffWords(from.fullText, to.fullText);
+    const counts = countChangedWords(parts);
+    response += `\n## ${label(change)} (+${counts.inserted} / -${counts.deleted} words)\n\n${formatRedline(parts, true)}\n`;
+  }
+  if (amended.length > limit) {
+    response += `\n## Also Changed\n\n${amended.slice(limit).map(label).join(', ')}\n`;
+  }
+
+  if (added.length > 0) {
+    const shown = added.slice(0, 50).map(label).join(', ');
+    response += `\n## Added\n\n${shown}${added.length > 50 ? ` and ${added.length - 50} more` : ''}\n`;
+  }
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: response,
+      },
+    ],
+  };
+}
+
+/**
+ * Answer an as_of request from section_versions with the text in effect on
+ * that date.
+ */
+function versionResponse(db: LawDatabase, type: 'RCW' | 'WAC' | 'COURT_RULE', citation: string, path: string[], asOf: string) {
+  const label = formatReference(type, type === 'COURT_RULE' ? 'rule' : 'section', citation);
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `as_of must be a date in YYYY-MM-DD form, not "${asOf}".`,
+        },
+      ],
+    };
+  }
+
+  const version = db.getSectionAsOf(type, citation, asOf);
+  if (!version) {
+    const earliest = db.getSectionVersions(type, citation)[0];
+    return {
+      content: [
+        {
+          type: 'text',
+          text: earliest
+            ? `No recorded version of ${label} was in effect on ${asOf}. The earliest recorded version dates from ${earliest.effectiveFrom || earliest.recordedAt}.`
+            : `${label} not found in database.`,
+        },
+      ],
+    };
+  }
+
+  if (path.length > 0 && type !== 'COURT_RULE') {
+    const { subsections } = buildSubsectionTree(version.fullText.split('\n'));
+    return pinpointResponse(type, { ...version, subsections }, path, asOf);
+  }
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `# ${label}${version.sectionName ? ': ' + version.sectionName : ''} (as of ${asOf})
+
+**Version**: ${describeVersion(version)}
+
+## Full Text
+
+${version.fullText}
+${version.historyNote ? `\n**History**: [${version.historyNote}]\n` : ''}`,
+      },
+    ],
+  };
+}
+
+function rcwResponse(db: LawDatabase, citation: string, path: string[], asOf?: string) {
+  if (asOf) {
+    return versionResponse(db, 'RCW', citation, path, asOf);
+  }
+
+  const rcw = db.getRCW(citation);
+  
+  if (!rcw) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `RCW ${citation} not found in database.`,
+        },
+      ],
+    };
+  }
+
+  if (path.length > 0) {
+    const response = pinpointResponse('RCW', rcw, path);
+    const notice = variantNotice(rcw);
+    if (notice) response.content[0].text += `\n\n${notice.trim()}`;
+    return response;
+  }
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `# RCW ${rcw.citation}${rcw.sectionName ? ': ' + rcw.sectionName : ''}
+
+${statusWarning('RCW', rcw)}${variantNotice(rcw)}**Title ${rcw.titleNum}**: ${rcw.titleName || 'Unknown'}
+**Chapter ${rcw.chapterNum}**: ${rcw.chapterName || 'Unknown'}
+
+## Full Text
+
+${rcw.fullText}
+${rcw.historyNote ? `\n**History**: [${rcw.historyNote}]\n` : ''}${rcw.notes ? `\n## Notes\n\n${rcw.notes}\n` : ''}
+${rcw.effectiveDate ? `\n**Effective Date**: ${rcw.effectiveDate}` : ''}
+${rcw.lastAmended ? `\n**Last Amended**: ${rcw.lastAmended}` : ''}`,
+      },
+    ],
+  };
+}
+
+function wacResponse(db: LawDatabase, citation: string, path: string[], asOf?: string) {
+  if (asOf) {
+    return versionResponse(db, 'WAC', citation, path, asOf);
+  }
+
+  const wac = db.getWAC(citation);
+  
+  if (!wac) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `WAC ${citation} not found in database.`,
+        },
+      ],
+    };
+  }
+
+  if (path.length > 0) {
+    return pinpointResponse('WAC', wac, path);
+  }
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `# WAC ${wac.citation}${wac.sectionName ? ': ' + wac.sectionName : ''}
+
+${statusWarning('WAC', wac)}**Title ${wac.titleNum}**: ${wac.titleName || 'Unknown'}
+**Chapter ${wac.chapterNum}**: ${wac.chapterName || 'Unknown'}
+
+## Full Text
+
+${wac.fullText}
+${wac.historyNote ? `\n**History**: [${wac.historyNote}]\n` : ''}${wac.notes ? `\n## Notes\n\n${wac.notes}\n` : ''}
+${wac.effectiveDate ? `\n**Effective Date**: ${wac.effectiveDate}` : ''}`,
+      },
+    ],
+  };
+}
+
+/**
+ * A court rule with its history and comments, or only the comment cited
+ * ("RPC 1.7 cmt 8").
+ */
+function courtRuleResponse(db: LawDatabase, ruleSet: string, ruleNumber: string, asOf?: string, comment?: string, includeComments: boolean = true) {
+  const rule = db.getCourtRule(ruleSet, ruleNumber);
+
+  if (asOf) {
+    // Versions are keyed by the stored rule number, e.g. "60.0" for "60"
+    return versionResponse(db, 'COURT_RULE', `${ruleSet} ${rule?.ruleNumber || ruleNumber}`, [], asOf);
+  }
+  
+  if (!rule) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${ruleSet} ${ruleNumber} not found in database.`,
+        },
+      ],
+    };
+  }
+
+  const heading = `${rule.ruleSet} ${rule.ruleNumber}${rule.ruleName ? ': ' + rule.ruleName : ''}`;
+
+  if (comment) {
+    const cited = rule.comments.find(c => c.number.toLowerCase() === comment.toLowerCase());
+    const numbers = rule.comments.map(c => c.number).join(', ');
+    return {
+      content: [
+        {
+          type: 'text',
+          text: cited
+            ? `# ${rule.ruleSet} ${rule.ruleNumber} cmt ${cited.number}\n\n**Rule**: ${heading}\n\n${cited.text}`
+            : `${rule.ruleSet} ${rule.ruleNumber} has no comment ${comment}. ${numbers ? `Its comments are numbered ${numbers}.` : 'It has no comments.'}`,
+        },
+      ],
+    };
+  }
+
+  const comments = rule.comments.length === 0 ? ''
+    : includeComments
+      ? `\n## Comments\n\n${rule.comments.map(c => `**[${c.number}]** ${c.text}`).join('\n\n')}\n`
+      : `\n_${rule.comments.length} comment${rule.comments.length === 1 ? '' : 's'} not shown._\n`;
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `# ${heading}
+
+## Full Text
+
+${rule.fullText}
+${rule.historyNote ? `\n**History**: [${rule.historyNote}]\n` : ''}${comments}
+${rule.effectiveDate ? `\n**Effective Date**: ${rule.effectiveDate}` : ''}${rule.updatedAt ? `\n**Last Updated**: ${rule.updatedAt}` : ''}`,
+      },
+    ],
+  };
+}
+
+// Handle tool listing
+async function listTools(db: LawDatabase) {
+  // Offer the rule sets actually in the database, as they are written ("CrR")
+  const ruleSets = db.listRuleSets().map(ruleSet => COURT_RULE_SETS[ruleSet] || ruleSet);
+  const ruleSetEnum = ruleSets.length > 0 ? { enum: ruleSets } : {};
+
+  return {
+    tools: [
+      {
+        name: 'get_rcw',
+        description: 'Retrieve the full text of a specific RCW (Revised Code of Washington) section, or one of its subsections, by citation',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            citation: {
+              type: 'string',
+              description: 'RCW citation (e.g., "46.61.502" for DUI law, or "46.61.502(1)(a)" for a subsection)',
+            },
+            subsection: {
+              type: 'string',
+              description: 'Optional: Subsection to return instead of the whole section (e.g., "(1)(a)")',
+            },
+            as_of: {
+              type: 'string',
+              description: 'Optional: Date (YYYY-MM-DD), e.g. an offense date, to return the version in effect then',
+            },
+          },
+          required: ['citation'],
+        },
+      },
+      {
+        name: 'get_court_rule',
+        description: 'Retrieve the full text of a specific court rule (e.g., CR, CrR, ER, RAP, RPC or IRLJ) by rule set and number, with its adoption history and numbered comments. A single comment can be asked for as "RPC 1.7 cmt 8"',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ruleSet: {
+              type: 'string',
+              description: 'Rule set (e.g., "CR", "CrR", "RPC" or "IRLJ")',
+              ...ruleSetEnum,
+            },
+            ruleNumber: {
+              type: 'string',
+              description: 'Rule number (e.g., "6.7", "60.0", "RPC 1.7" or "RPC 1.7 cmt 8")',
+            },
+            includeComments: {
+              type: 'boolean',
+              description: 'Optional: Include the rule\'s comments (default: true)',
+            },
+            as_of: {
+              type: 'string',
+              description: 'Optional: Date (YYYY-MM-DD), e.g. an offense date, to return the version in effect then',
+            },
+          },
+          required: ['ruleSet', 'ruleNumber'],
+        },
+      },
+      {
+        name: 'list_court_rules',
+        description: 'List all court rules, optionally filtered by rule set',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ruleSet: {
+              type: 'string',
+              description: 'Optional: Filter by rule set (e.g., "CR", "CrR", "RPC" or "IRLJ")',
+              ...ruleSetEnum,
+            },
+          },
+        },
+      },
+      {
+        name: 'get_wac',
+        description: 'Retrieve the full text of a specific WAC (Washington Administrative Code) section, or one of its subsections, by citation',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            citation: {
+              type: 'string',
+              description: 'WAC citation (e.g., "296-24-12005", or "296-24-12005(2)" for a subsection)',
+            },
+            subsection: {
+              type: 'string',
+              description: 'Optional: Subsection to return instead of the whole section (e.g., "(2)(a)")',
+            },
+            as_of: {
+              type: 'string',
+              description: 'Optional: Date (YYYY-MM-DD), e.g. an offense date, to return the version in effect then',
+            },
+          },
+          required: ['citation'],
+        },
+      },
+      {
+        name: 'resolve_citation',
+        description: 'Look up any Washington citation written the usual way, e.g. "RCW 46.61.502", "R.C.W. § 46.61.502(1)", "46.61.502 RCW", "WAC 296-24-12005", "CrRLJ 3.2" or "RPC 1.7 cmt 3"',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            citation: {
+              type: 'string',
+              description: 'Citation text',
+            },
+          },
+          required: ['citation'],
+        },
+      },
+      {
+        name: 'get_section_history',
+        description: 'Get the legislative history of an RCW section: every session law that enacted or amended it, with effective dates where stated',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            citation: {
+              type: 'string',
+              description: 'RCW citation (e.g., "46.61.502")',
+            },
+          },
+          required: ['citation'],
+        },
+      },
+      {
+        name: 'get_references',
+        description: 'List the sections, chapters and court rules that a section or rule cites',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            citation: {
+              type: 'string',
+              description: 'Section or rule citation (e.g., "RCW 46.61.502", "WAC 296-24-12005" or "RPC 1.7")',
+            },
+          },
+          required: ['citation'],
+        },
+      },
+      {
+        name: 'get_cited_by',
+        description: 'List the sections and court rules that cite a section, chapter or rule',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            citation: {
+              type: 'string',
+              description: 'Section, chapter or rule citation (e.g., "RCW 9A.04.110", "chapter 46.20 RCW" or "CrRLJ 3.2")',
+            },
+          },
+          required: ['citation'],
+        },
+      },
+      {
+        name: 'get_definition',
+        description: 'Look up what a term means where it is used, from the definitions section that governs the given RCW or WAC section or chapter (including title-wide definitions such as chapter 46.04 RCW)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            term: {
+              type: 'string',
+              description: 'Defined term (e.g., "vehicle")',
+            },
+            citation: {
+              type: 'string',
+              description: 'Section or chapter being read (e.g., "RCW 46.61.502" or "chapter 46.61 RCW")',
+            },
+          },
+          required: ['term', 'citation'],
+        },
+      },
+      {
+        name: 'diff_section',
+        description: 'Show a word-level redline between two versions of a section or court rule. Without a citation, report every section that changed since the last database update',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            citation: {
+              type: 'string',
+              description: 'Optional: Section or rule citation (e.g., "RCW 46.61.502" or "RPC 1.7")',
+            },
+            from: {
+              type: 'string',
+              description: 'Optional: Earlier version, as a date (YYYY-MM-DD) or version id (default: the version before "to")',
+            },
+            to: {
+              type: 'string',
+              description: 'Optional: Later version, as a date (YYYY-MM-DD) or version id (default: the current version)',
+            },
+            since: {
+              type: 'string',
+              description: 'Optional: For the report, list changes recorded since this date (default: last update)',
+            },
+            limit: {
+              type: 'number',
+              description: 'Optional: For the report, maximum number of redlines to include (default: 10)',
+              default: 10,
+            },
+          },
+        },
+      },
+      {
+        name: 'search_laws',
+        description: 'Search Washington laws (RCW, WAC, and Court Rules including RPC) by keywords or phrases',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            query: {
+              type: 'string',
+              description: 'Search query (keywords or phrases)',
+            },
+            limit: {
+              type: 'number',
+              description: 'Maximum number of results to return (default: 20)',
+              default: 20,
+            },
+            offset: {
+              type: 'number',
+              description: 'Number of results to skip, for paging (default: 0)',
+              default: 0,
+            },
+            cursor: {
+              type: 'string',
+              description: 'Cursor from a previous search_laws response, to fetch the next page',
+            },
+            includeInactive: {
+              type: 'boolean',
+              description: 'Include repealed, recodified and expired sections (default: false)',
+              default: false,
+            },
+            expandSynonyms: {
+              type: 'boolean',
+              description: 'Also search abbreviations and legal terms under their other forms, e.g. DUI and "driving under the influence" (default: true)',
+              default: true,
+            },
+            types: {
+              type: 'array',
+              items: { type: 'string', enum: ['RCW', 'WAC', 'COURT_RULE'] },
+              description: 'Codes to search (default: all)',
+            },
+            title: {
+              type: 'string',
+              description: 'Only RCW/WAC sections in this title (e.g., "46" or "296")',
+            },
+            chapter: {
+              type: 'string',
+              description: 'Only sections in this chapter (e.g., "46.61" for RCW or "296-24" for WAC)',
+            },
+            ruleSet: {
+              type: 'string',
+              description: 'Only court rules in this rule set (e.g., "RPC", "CrRLJ")',
+            },
+          },
+          required: ['query'],
+        },
+      },
+      {
+        name: 'semantic_search',
+        description: 'Find sections that answer a plain-English question (e.g., "can my landlord keep my deposit for normal wear"), ranking by vector similarity and by keywords together. The vectors come from a local sentence-transformer model; when it is not installed, a lexical fallback (hashed words and synonyms) stands in and the results say so',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            query: {
+              type: 'string',
+              description: 'Question or description of the situation',
+            },
+            limit: {
+              type: 'number',
+              description: 'Maximum number of results to return (default: 10)',
+              default: 10,
+            },
+            types: {
+              type: 'array',
+              items: { type: 'string', enum: ['RCW', 'WAC', 'COURT_RULE'] },
+              description: 'Codes to search (default: all)',
+            },
+          },
+          required: ['query'],
+        },
+      },
+      {
+        name: 'find_similar',
+        description: 'Find the sections and court rules most textually similar to a given one, across RCW, WAC and court rules (e.g., the WAC rules that implement an RCW section)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            citation: {
+              type: 'string',
+              description: 'Section or rule citation (e.g., "RCW 49.46.130", "WAC 296-128-035" or "RPC 1.7")',
+            },
+            limit: {
+              type: 'number',
+              description: 'Maximum number of results to return (default: 10)',
+              default: 10,
+            },
+            types: {
+              type: 'array',
+              items: { type: 'string', enum: ['RCW', 'WAC', 'COURT_RULE'] },
+              description: 'Codes to search (default: all)',
+            },
+          },
+          required: ['citation'],
+        },
+      },
+      {
+        name: 'list_rcw_titles',
+        description: 'List all RCW titles with their names and section counts',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      {
+        name: 'list_rcw_chapters',
+        description: 'List all chapters within a specific RCW title',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            titleNum: {
+              type: 'string',
+              description: 'Title number (e.g., "46" for Motor Vehicles)',
+            },
+          },
+          required: ['titleNum'],
+        },
+      },
+      {
+        name: 'list_rcw_sections',
+        description: 'List all sections within a specific RCW chapter',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            chapterNum: {
+              type: 'string',
+              description: 'Chapter number (e.g., "46.61" for Rules of the Road)',
+            },
+          },
+          required: ['chapterNum'],
+        },
+      },
+      {
+        name: 'list_wac_titles',
+        description: 'List all WAC titles with their names and section counts',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      {
+        name: 'list_wac_chapters',
+        description: 'List all chapters within a specific WAC title',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            titleNum: {
+              type: 'string',
+              description: 'Title number (e.g., "296" for Labor and Industries)',
+            },
+          },
+          required: ['titleNum'],
+        },
+      },
+      {
+        name: 'list_wac_sections',
+        description: 'List all sections within a specific WAC chapter',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            chapterNum: {
+              type: 'string',
+              description: 'Chapter number (e.g., "296-24" for General Safety and Health Standards)',
+            },
+          },
+          required: ['chapterNum'],
+        },
+      },
+      {
+        name: 'get_statistics',
+        description: 'Get statistics about the law database',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+    ],
+  };
+}
+
+// Handle tool calls
+async function callTool(db: LawDatabase, request: CallToolRequest) {
+  const { name, arguments: args } = request.params;
+
+  try {
+    switch (name) {
+      case 'get_rcw': {
+        const section = sectionCitation(`${args?.citation as string}${(args?.subsection as string) || ''}`, 'RCW');
+        if ('error' in section) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: section.error,
+              },
+            ],
+          };
+        }
+        return rcwResponse(db, section.citation, section.path, args?.as_of as string | undefined);
+      }
+
+      case 'get_wac': {
+        const section = sectionCitation(`${args?.citation as string}${(args?.subsection as string) || ''}`, 'WAC');
+        if ('error' in section) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: section.error,
+              },
+            ],
+          };
+        }
+        return wacResponse(db, section.citation, section.path, args?.as_of as string | undefined);
+      }
+
+      case 'get_court_rule': {
+        let ruleSet = (args?.ruleSet as string).toUpperCase();
+        let ruleNumber = args?.ruleNumber as string;
+
+        // Accept "1.7", "RPC 1.7", "Rule 1.7" or "RPC 1.7 cmt 8" as the rule number
+        const parsed = [ruleNumber, `${ruleSet} ${ruleNumber}`]
+          .map(text => parseCitation(text))
+          .find(citation => citation?.type === 'COURT_RULE');
+        if (parsed) {
+          ruleSet = parsed.ruleSet!;
+          ruleNumber = parsed.citation;
+        }
+
+        return courtRuleResponse(db, ruleSet, ruleNumber, args?.as_of as string | undefined, parsed?.comment, args?.includeComments !== false);
+      }
+
+      case 'resolve_citation': {
+        const text = args?.citation as string;
+        const parsed = parseCitation(text);
+
+        if (!parsed) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Could not recognise "${text}" as an RCW, WAC or court rule citation. Try forms such as "RCW 46.61.502", "WAC 296-24-12005" or "CrRLJ 3.2".`,
+              },
+            ],
+          };
+        }
+
+        switch (parsed.type) {
+          case 'RCW':
+            return rcwResponse(db, parsed.citation, parsed.path);
+          case 'WAC':
+            return wacResponse(db, parsed.citation, parsed.path);
+          case 'COURT_RULE':
+            return courtRuleResponse(db, parsed.ruleSet!, parsed.citation, undefined, parsed.comment);
+        }
+      }
+
+      case 'list_court_rules': {
+        const ruleSet = args?.ruleSet as string | undefined;
+        const rules = db.listCourtRules(ruleSet?.toUpperCase());
+        
+        if (rules.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: ruleSet ? `No rules found for ${ruleSet}` : 'No court rules found',
+              },
+            ],
+          };
+        }
+
+        let response = ruleSet ? `# ${ruleSet} Rules\n\n` : '# Court Rules\n\n';
+        let currentSet = '';
+        
+        for (const rule of rules) {
+          if (!ruleSet && rule.ruleSet !== currentSet) {
+            currentSet = rule.ruleSet;
+            response += `\n## ${currentSet}\n\n`;
+          }
+          response += `- **${rule.ruleSet} ${rule.ruleNumber}**: ${rule.ruleName}\n`;
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: response,
+            },
+          ],
+        };
+      }
+
+      case 'get_section_history': {
+        const section = sectionCitation(args?.citation as string, 'RCW');
+        if ('error' in section) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: section.error,
+              },
+            ],
+          };
+        }
+
+        const rcw = db.getRCW(section.citation);
+        if (!rcw) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `RCW ${section.citation} not found in database.`,
+              },
+            ],
+          };
+        }
+        if (!rcw.historyNote) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `No history note is stored for RCW ${rcw.citation}; rescrape the section to record it.`,
+              },
+            ],
+          };
+        }
+
+        const sessionLaws = parseHistoryNote(rcw.historyNote, rcw.notes);
+        const describe = (law: SessionLaw) => {
+          const details = [
+            law.effectiveDate ? `effective ${law.effectiveDate}` : '',
+            law.note || ''
+          ].filter(Boolean).join('; ');
+          return `- **${law.citation}**${details ? ` (${details})` : ''}\n`;
+        };
+
+        let response = `# Legislative History of RCW ${rcw.citation}${rcw.sectionName ? ': ' + rcw.sectionName : ''}
+
+${rcw.lastAmended ? `**Last Amended**: ${rcw.lastAmended}\n` : ''}${rcw.effectiveDate ? `**Effective Date**: ${rcw.effectiveDate}\n` : ''}
+## Session Laws (newest first)
+
+`;
+        for (const law of sessionLaws.filter(law => !law.prior)) {
+          response += describe(law);
+        }
+
+        const prior = sessionLaws.filter(law => law.prior);
+        if (prior.length > 0) {
+          response += '\n## Prior Law\n\n';
+          for (const law of prior) {
+            response += describe(law);
+          }
+        }
+
+        response += `\n**History Note**: [${rcw.historyNote}]\n`;
+        if (rcw.notes) {
+          response += `\n## Notes\n\n${rcw.notes}\n`;
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: response,
+            },
+          ],
+        };
+      }
+
+      case 'get_references': {
+        const text = args?.citation as string;
+        const target = citationTarget(text);
+
+        if (!target || target.kind === 'chapter') {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Could not recognise "${text}" as a section or court rule citation.`,
+              },
+            ],
+          };
+        }
+
+        const references = db.getReferences(target.type, target.citation);
+        if (references.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `No cross-references found in ${target.label}.`,
+              },
+            ],
+          };
+        }
+
+        let response = `# References in ${target.label}\n\n`;
+        for (const reference of references) {
+          response += `- **${formatReference(reference.toType, reference.toKind, reference.toCitation)}**`;
+          response += reference.context ? `: ${reference.context}\n` : '\n';
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: response,
+            },
+          ],
+        };
+      }
+
+      case 'get_cited_by': {
+        const text = args?.citation as string;
+        const target = citationTarget(text);
+
+        if (!target) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Could not recognise "${text}" as a section, chapter or court rule citation.`,
+              },
+            ],
+          };
+        }
+
+        const groups = [{ heading: `Citing ${target.label}`, edges: db.getCitedBy(target.type, target.kind, target.citation) }];
+
+        // References to the enclosing chapter often matter too
+        if (target.kind === 'section') {
+          const chapter = target.citation.slice(0, target.citation.lastIndexOf(target.type === 'RCW' ? '.' : '-'));
+          groups.push({
+            heading: `Citing ${formatReference(target.type, 'chapter', chapter)}`,
+            edges: db.getCitedBy(target.type, 'chapter', chapter)
+          });
+        }
+
+        if (groups.every(group => group.edges.length === 0)) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Nothing in the database cites ${target.label}.`,
+              },
+            ],
+          };
+        }
+
+        let response = `# Citations of ${target.label}\n`;
+        for (const group of groups) {
+          if (group.edges.length === 0) continue;
+          response += `\n## ${group.heading} (${group.edges.length})\n\n`;
+          for (const edge of group.edges) {
+            const kind = edge.fromType === 'COURT_RULE' ? 'rule' : 'section';
+            response += `- **${formatReference(edge.fromType, kind, edge.fromCitation)}**`;
+            response += edge.context ? `: ${edge.context}\n` : '\n';
+          }
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: response,
+            },
+          ],
+        };
+      }
+
+      case 'get_definition': {
+        const term = (args?.term as string).trim().replace(/^["“]|["”]$/g, '');
+        const target = citationTarget(args?.citation as string);
+
+        if (!target || target.type === 'COURT_RULE') {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Could not recognise "${args?.citation}" as an RCW or WAC section or chapter citation.`,
+              },
+            ],
+          };
+        }
+
+        const type = target.type as 'RCW' | 'WAC';
+        const definitions = db.getGoverningDefinitions(term, type, target.citation);
+
+        if (definitions.length === 0) {
+          const elsewhere = db.findDefinitions(term);
+          let response = `No definition of "${term}" governs ${target.label}.`;
+          if (elsewhere.length > 0) {
+            response += `\n\nIt is defined elsewhere, with a scope that does not reach ${target.label}:\n\n`;
+            for (const definition of elsewhere) {
+              response += `- **${definition.type} ${definition.citation}** (${definitionScope(definition)})\n`;
+            }
+          }
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: response,
+              },
+            ],
+          };
+        }
+
+        const [governing, ...others] = definitions;
+        let response = `# "${governing.term}" in ${target.label}
+
+**Defined in**: ${governing.type} ${governing.citation} (${definitionScope(governing)})
+
+${governing.text}
+`;
+        // A narrower definition displaces these, but they are worth knowing about
+        for (const definition of others) {
+          response += `\n## Also defined in ${definition.type} ${definition.citation} (${definitionScope(definition)})\n\n${definition.text}\n`;
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: response,
+            },
+          ],
+        };
+      }
+
+      case 'diff_section': {
+        const text = args?.citation as string | undefined;
+        if (!text) {
+          return changeReport(db, args?.since as string | undefined, (args?.limit as number) || 10);
+        }
+
+        const target = citationTarget(text);
+        if (!target || target.kind === 'chapter') {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Could not recognise "${text}" as a section or court rule citation.`,
+              },
+            ],
+          };
+        }
+
+        let versions = db.getSectionVersions(target.type, target.citation);
+        if (versions.length === 0 && target.type === 'COURT_RULE' && !target.citation.includes('.')) {
+          versions = db.getSectionVersions(target.type, `${target.citation}.0`);
+        }
+        if (versions.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `${target.label} not found in database.`,
+              },
+            ],
+          };
+        }
+
+        // A version is named by its id or by a date it was in effect on
+        const pick = (ref: string | undefined, fallback: SectionVersion | undefined) => {
+          if (!ref) return fallback;
+          if (/^\d+$/.test(ref)) return versions.find(version => version.id === Number(ref));
+          return db.getSectionAsOf(versions[0].type, versions[0].citation, ref) || undefined;
+        };
+        const to = pick(args?.to as string | undefined, versions[versions.length - 1]);
+        const from = pick(args?.from as string | undefined, versions[versions.findIndex(version => version.id === to?.id) - 1]);
+
+        let response = `# Changes to ${target.label}\n\n`;
+        if (!from || !to) {
+          response += versions.length === 1 && !args?.from && !args?.to
+            ? 'Only one version of this text has been recorded.\n'
+            : 'No recorded version matches the requested from/to.\n';
+        } else {
+          const parts = diffWords(from.fullText, to.fullText);
+          const counts = countChangedWords(parts);
+          response += `**From**: ${describeVersion(from)}
+**To**: ${describeVersion(to)}
+**Changed**: ${counts.inserted} words added, ${counts.deleted} removed
+
+## Redline
+
+${counts.inserted + counts.deleted > 0 ? formatRedline(parts) : 'The text is identical.'}
+`;
+        }
+
+        response += '\n## Recorded Versions\n\n';
+        for (const version of versions) {
+          response += `- ${describeVersion(version)}\n`;
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: response,
+            },
+          ],
+        };
+      }
+
+      case 'search_laws': {
+        const query = args?.query as string;
+        const limit = (args?.limit as number) || 20;
+
+        let offset = Math.max(0, Math.floor((args?.offset as number) || 0));
+        if (args?.cursor) {
+          const cursorOffset = decodeCursor(args.cursor as string, query);
+          if (cursorOffset === null) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Invalid cursor for query "${query}". Use the cursor returned by the previous search with the same query, or pass offset instead.`,
+                },
+              ],
+            };
+          }
+          offset = cursorOffset;
+        }
+
+        const page = db.searchLawsPage(query, {
+          limit,
+          offset,
+          includeInactive: (args?.includeInactive as boolean) || false,
+          types: args?.types as SearchOptions['types'],
+          title: args?.title as string | undefined,
+          chapter: args?.chapter as string | undefined,
+          ruleSet: args?.ruleSet as string | undefined,
+          expandSynonyms: args?.expandSynonyms as boolean | undefined,
+        });
+        const results = page.results;
+        const expanded = page.expansions
+          ? `Also searched: ${page.expansions.map(e => `${e.term} → ${e.synonyms.map(s => `"${s}"`).join(', ')}`).join('; ')}`
+          : '';
+
+        if (results.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: (offset > 0
+                  ? `No more results for query: "${query}" (offset ${offset})`
+                  : `No results found for query: "${query}"`) + (expanded ? `\n${expanded}` : ''),
+              },
+            ],
+          };
+        }
+
+        let response = `# Search Results for "${query}"\n\n`;
+        if (expanded) {
+          response += `_${expanded}_\n\n`;
+        }
+        if (page.fallback) {
+          response += `_The query could not be parsed as written, so its words were searched as plain terms (${page.ftsQuery})._\n\n`;
+        }
+        response += `Showing results ${offset + 1}-${offset + results.length}:\n\n`;
+        
+        for (const result of results) {
+          response += `## ${result.type} ${result.citation}`;
+          if (result.sectionName) {
+            response += `: ${result.sectionName}`;
+          }
+          if (result.status && result.status !== 'active') {
+            response += ` [${result.status.toUpperCase()}]`;
+          }
+          response += '\n';
+          
+          if (result.chapterName) {
+            response += `**Chapter**: ${result.chapterName}\n`;
+          }
+          
+          response += `**Snippet**: ${result.snippet}\n\n`;
+        }
+
+        if (page.nextOffset !== undefined) {
+          response += `---\nMore results available: call search_laws again with cursor "${encodeCursor(query, page.nextOffset)}" (or offset ${page.nextOffset}).\n`;
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: response,
+            },
+          ],
+        };
+      }
+
+      case 'semantic_search': {
+        const query = args?.query as string;
+        const limit = (args?.limit as number) || 10;
+
+        const provider = await (embeddingProvider ??= loadEmbeddingProvider());
+        const [vector] = await provider.embed([query]);
+        const results = db.semanticSearch(query, vector, provider.name, { limit, types: args?.types as SearchOptions['types'] });
+
+        let response = `# Semantic Search Results for "${query}"\n\n`;
+        if (provider.lexical) {
+          response += `_Ranked with the lexical ${provider.name} fallback rather than the embedding model: it matches shared words and synonyms, not meaning._\n\n`;
+        }
+        if (db.countEmbeddings(provider.name) === 0) {
+          response += `_No vector index for ${provider.name}; these are keyword results only. Build it with \`npm run build:embeddings\`._\n\n`;
+        }
+        if (results.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: response + 'No matching sections found.',
+              },
+            ],
+          };
+        }
+
+        for (const result of results) {
+          const kind = result.type === 'COURT_RULE' ? 'rule' : 'section';
+          response += `## ${formatReference(result.type, kind, result.citation)}${result.path || ''}`;
+          if (result.sectionName) {
+            response += `: ${result.sectionName}`;
+          }
+          response += '\n';
+
+          const matchedBy: string[] = [];
+          if (result.vectorRank) matchedBy.push(`${provider.name} vectors (rank ${result.vectorRank}, similarity ${result.similarity!.toFixed(2)})`);
+          if (result.keywordRank) matchedBy.push(`keywords (rank ${result.keywordRank})`);
+          response += `**Matched by**: ${matchedBy.join(', ')}\n`;
+          if (result.snippet) {
+            response += `**Snippet**: ${result.snippet}\n`;
+          }
+          response += '\n';
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: response,
+            },
+          ],
+        };
+      }
+
+      case 'find_similar': {
+        const text = args?.citation as string;
+        const target = citationTarget(text);
+
+        if (!target || target.kind === 'chapter') {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Could not recognise "${text}" as a section or court rule citation.`,
+              },
+            ],
+          };
+        }
+
+        const similar = db.findSimilar(target.type, target.citation, {
+          limit: (args?.limit as number) || 10,
+          types: args?.types as SearchOptions['types'],
+        });
+        if (!similar) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `${target.label} not found in database.`,
+              },
+            ],
+          };
+        }
+        if (similar.results.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `No sections similar to ${target.label} found.`,
+              },
+            ],
+          };
+        }
+
+        let response = `# Similar to ${target.label}\n\n`;
+        response += `_Compared on: ${similar.terms.join(', ')}_\n\n`;
+        for (const result of similar.results) {
+          response += `## ${result.type} ${result.citation}`;
+          if (result.sectionName) {
+            response += `: ${result.sectionName}`;
+          }
+          response += '\n';
+          if (result.chapterName) {
+            response += `**Chapter**: ${result.chapterName}\n`;
+          }
+          response += `**Snippet**: ${result.snippet}\n\n`;
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: response,
+            },
+          ],
+        };
+      }
+
+      case 'list_rcw_titles': {
+        const titles = db.listRCWTitles();
+        
+        let response = '# RCW Titles\n\n';
+        for (const title of titles) {
+          response += `- **Title ${title.titleNum}**: ${title.titleName} (${title.count} sections)\n`;
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: response,
+            },
+          ],
+        };
+      }
+
+      case 'list_rcw_chapters': {
+        const titleNum = args?.titleNum as string;
+        const chapters = db.listRCWChapters(titleNum);
+
+        if (chapters.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `No chapters found for Title ${titleNum}`,
+              },
+            ],
+          };
+        }
+
+        let response = `# RCW Title ${titleNum} Chapters\n\n`;
+        for (const chapter of chapters) {
+          response += `- **Chapter ${chapter.chapterNum}**: ${chapter.chapterName} (${chapter.count} sections)\n`;
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: response,
+            },
+          ],
+        };
+      }
+
+      case 'list_rcw_sections': {
+        const chapterNum = args?.chapterNum as string;
+        const sections = db.listRCWSections(chapterNum);
+
+        if (sections.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `No sections found for Chapter ${chapterNum}`,
+              },
+            ],
+          };
+        }
+
+        let response = `# RCW Chapter ${chapterNum} Sections\n\n`;
+        for (const section of sections) {
+          response += `- **${section.citation}**: ${section.sectionName}\n`;
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: response,
+            },
+          ],
+        };
+      }
+
+      case 'list_wac_titles': {
+        const titles = db.listWACTitles();
+
+        let response = '# WAC Titles\n\n';
+        for (const title of titles) {
+          response += `- **Title ${title.titleNum}**: ${title.titleName} (${title.count} sections)\n`;
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: response,
+            },
+          ],
+        };
+      }
+
+      case 'list_wac_chapters': {
+        const titleNum = args?.titleNum as string;
+        const chapters = db.listWACChapters(titleNum);
+
+        if (chapters.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `No chapters found for WAC Title ${titleNum}`,
+              },
+            ],
+          };
+        }
+
+        let response = `# WAC Title ${titleNum} Chapters\n\n`;
+        for (const chapter of chapters) {
+          response += `- **Chapter ${chapter.chapterNum}**: ${chapter.chapterName} (${chapter.count} sections)\n`;
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: response,
+            },
+          ],
+        };
+      }
+
+      case 'list_wac_sections': {
+        const chapterNum = args?.chapterNum as string;
+        const sections = db.listWACSections(chapterNum);
+
+        if (sections.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `No sections found for WAC Chapter ${chapterNum}`,
+              },
+            ],
+          };
+        }
+
+        let response = `# WAC Chapter ${chapterNum} Sections\n\n`;
+        for (const section of sections) {
+          response += `- **${section.citation}**: ${section.sectionName}\n`;
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: response,
+            },
+          ],
+        };
+      }
+
+      case 'get_statistics': {
+        const stats = db.getStatistics();
+        const written = (ruleSet: string) => COURT_RULE_SETS[ruleSet] || ruleSet;
+        const scraped = db.listRuleSets().map(written).join(', ');
+        const local = loadLocalRuleSets().map(config => written(config.ruleSet)).join(', ');
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `# Washington Law Database Statistics
+
+- **RCW Sections**: ${stats.rcwCount.toLocaleString()}
+- **WAC Sections**: ${stats.wacCount.toLocaleString()}
+- **Court Rules**: ${stats.courtRulesCount.toLocaleString()}${scraped ? ` (${scraped})` : ''}
+- **Court Rule Sets Configured**: ${COURT_RULE_SET_CONFIG.map(config => written(config.ruleSet)).join(', ')}${local ? `; local: ${local}` : ''}
+- **Last Update**: ${stats.lastUpdate}
+
+Database is stored locally and operates completely offline.`,
+            },
+          ],
+        };
+      }
+
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${(error as Error).message}`,
+        },
+      ],
+    };
+  }
+}
+
+// Handle resource listing
+async function listResources(db: LawDatabase) {
+  const stats = db.getStatistics();
+  
+  return {
+    resources: [
+      {
+        uri: 'law://washington/statistics',
+        name: 'Washington Law Database Statistics',
+        description: `Local database with ${stats.rcwCount} RCW sections, ${stats.wacCount} WAC sections, and ${stats.courtRulesCount || 0} court rules`,
+        mimeType: 'text/plain',
+      },
+    ],
+  };
+}
+
+// Handle resource reading
+async function readResource(db: LawDatabase, request: ReadResourceRequest) {
+  const { uri } = request.params;
+
+  if (uri === 'law://washington/statistics') {
+    const stats = db.getStatistics();
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: 'text/plain',
+          text: `Washington Law Database Statistics:
+- RCW Sections: ${stats.rcwCount}
+- WAC Sections: ${stats.wacCount}
+- Court Rules: ${stats.courtRulesCount || 0}
+- Last Update: ${stats.lastUpdate}`,
+        },
+      ],
+    };
+  }
+
+  throw new Error(`Unknown resource: ${uri}`);
+}
+
+/**
+ * The MCP server over a law database, with its tools and statistics
+ * resource. Connect it to a transport to serve it.
+ */
+export function createServer(db: LawDatabase): Server {
+  const server = new Server(
+    {
+      name: 'washington-law-mcp',
+      version: '1.0.0',
+    },
+    {
+      capabilities: {
+        tools: { listChanged: true },
+        resources: {},
+      },
+    }
+  );
+
+  // The ruleSet enums list the sets in the database, which a scrape can add
+  // to while the server runs: tell the client to list the tools again
+  let listedRuleSets: string | undefined;
+  server.setRequestHandler(ListToolsRequestSchema, () => {
+    listedRuleSets = db.listRuleSets().join();
+    return listTools(db);
+  });
+  server.setRequestHandler(CallToolRequestSchema, async request => {
+    const result = await callTool(db, request);
+    if (listedRuleSets !== undefined && db.listRuleSets().join() !== listedRuleSets) {
+      listedRuleSets = undefined;
+      await server.sendToolListChanged();
+    }
+    return result;
+  });
+  server.setRequestHandler(ListResourcesRequestSchema, () => listResources(db));
+  server.setRequestHandler(ReadResourceRequestSchema, request => readResource(db, request));
+  return server;
+}
@@ -0,0 +1,50 @@
+import { SectionStatus } from './types.js';
+
+export const INACTIVE_STATUSES: SectionStatus[] = ['repealed', 'recodified', 'expired'];
+
+export interface StatusInfo {
+  status: SectionStatus;
+  statusTarget?: string;
+  statusNote?: string;
+}
+
+const SECTION_NUMBER = String.raw`\d+[A-Z]?[.-]\d+[A-Z]?[.-]\d+[A-Z]?`;
+
+/**
+ * Tell repealed, recodified, decodified and expired sections from live ones.
+ * The site keeps these sections as stubs whose catchline or first lines carry
+ * the notice ("Repealed.", "Recodified as RCW 9.94A.515.", "Expired June 30,
+ * 2019."), sometimes only inside the bracketed history note. Contingent
+ * sections are flagged from their "(Contingent effective date.)" catchline.
+ */
+export function detectStatus(section: { sectionName?: string; fullText: string; historyNote?: string }): StatusInfo {
+  const lines = [
+    section.sectionName || '',
+    ...section.fullText.split('\n').slice(0, 3),
+    section.historyNote || ''
+  ].map(line => line.trim()).filter(Boolean);
+  const noteFor = (line: string) => line.length > 200 ? `${line.slice(0, 200)}…` : line;
+
+  for (const line of lines) {
+    const recodified = line.match(new RegExp(String.raw`^\[?\s*Recodified as (?:RCW |WAC )?(${SECTION_NUMBER})`, 'i'));
+    if (recodified) {
+      return { status: 'recodified', statusTarget: recodified[1].toUpperCase(), statusNote: noteFor(line) };
+    }
+  }
+
+  for (const line of lines) {
+    if (/^\[?\s*(?:Repealed|Decodified)\b/i.test(line)) {
+      return { status: 'repealed', statusNote: noteFor(line) };
+    }
+    if (/^\[?\s*Expired\b/i.test(line) || /^This section expired\b/i.test(line)) {
+      return { status: 'expired', statusNote: noteFor(line) };
+    }
+  }
+
+  const contingent = (section.sectionName || '').match(/\((Contingent (?:effective|expiration) date)\.?\)/i);
+  if (contingent) {
+    return { status: 'contingent', statusNote: `${contingent[1]}.` };
+  }
+
+  return { status: 'active' };
+}
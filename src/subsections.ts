@@ -0,0 +1,158 @@
+import { PinpointMatch, Subsection } from './types.js';
+
+type LabelKind = 'number' | 'lower-alpha' | 'lower-roman' | 'upper-alpha' | 'upper-roman';
+
+interface OpenLevel {
+  kind: LabelKind;
+  node: Subsection;
+}
+
+const LEADING_LABEL = /^\(([0-9]+|[a-z]{1,4}|[A-Z]{1,4})\)\s*/;
+
+function previousLetter(label: string): string {
+  // "b" -> "a", "bb" -> "aa"
+  const prev = String.fromCharCode(label.charCodeAt(0) - 1);
+  return prev.repeat(label.length);
+}
+
+/**
+ * Work out what kind of label "(i)" or "(v)" is from the levels already open:
+ * it continues a lettered list when the previous letter is open, otherwise it
+ * starts or continues a roman-numeral list. A label that follows another in
+ * the same paragraph, as in "(h)(i)", always starts a new level.
+ */
+function classifyLabel(label: string, open: OpenLevel[], nested: boolean): LabelKind {
+  if (/^\d+$/.test(label)) return 'number';
+
+  const lower = label === label.toLowerCase();
+  const alphaKind: LabelKind = lower ? 'lower-alpha' : 'upper-alpha';
+  const romanKind: LabelKind = lower ? 'lower-roman' : 'upper-roman';
+
+  if (!/^[ivxlc]+$/i.test(label)) return alphaKind;
+  if (nested && label.toLowerCase() === 'i') return romanKind;
+
+  const alphaLevel = open.find(level => level.kind === alphaKind);
+  if (alphaLevel && alphaLevel.node.label === previousLetter(label)) return alphaKind;
+
+  const romanLevel = open.find(level => level.kind === romanKind);
+  if (romanLevel) return romanKind;
+
+  // A lone "(i)" starts a roman list unless it directly follows "(h)"
+  return label.length === 1 && label.toLowerCase() !== 'i' ? alphaKind : romanKind;
+}
+
+/**
+ * Build the (1)(a)(i)(A) hierarchy from the section's paragraphs. Paragraphs
+ * before the first label are returned as the lead-in; unlabelled paragraphs
+ * after it continue the deepest open subsection.
+ */
+export function buildSubsectionTree(paragraphs: string[]): { leadIn: string; subsections: Subsection[] } {
+  const roots: Subsection[] = [];
+  const leadIn: string[] = [];
+  let open: OpenLevel[] = [];
+
+  for (const paragraph of paragraphs) {
+    let rest = paragraph.trim();
+    let match = rest.match(LEADING_LABEL);
+
+    if (!match) {
+      if (open.length === 0) {
+        leadIn.push(rest);
+      } else {
+        const deepest = open[open.length - 1].node;
+        deepest.text = deepest.text ? `${deepest.text}\n${rest}` : rest;
+      }
+      continue;
+    }
+
+    // "(1)(a) text" opens two levels at once
+    let nested = false;
+    while (match) {
+      const label = match[1];
+      rest = rest.slice(match[0].length);
+      const kind = classifyLabel(label, open, nested);
+      nested = true;
+      const node: Subsection = { label, text: '', children: [] };
+
+      const sameKind = open.findIndex(level => level.kind === kind);
+      if (sameKind >= 0) {
+        open = open.slice(0, sameKind);
+      }
+
+      if (open.length === 0) {
+        roots.push(node);
+      } else {
+        open[open.length - 1].node.children.push(node);
+      }
+      open.push({ kind, node });
+
+      match = rest.match(LEADING_LABEL);
+    }
+
+    open[open.length - 1].node.text = rest.trim();
+  }
+
+  return { leadIn: leadIn.join('\n'), subsections: roots };
+}
+
+/**
+ * Split "46.61.502(1)(a)" into the section citation and the subsection path.
+ */
+export function splitPinpoint(citation: string): { citation: string; path: string[] } {
+  const match = citation.trim().match(/^(.*?)((?:\s*\([0-9A-Za-z]{1,5}\))+)$/);
+  if (!match) return { citation: citation.trim(), path: [] };
+
+  const path = [...match[2].matchAll(/\(([0-9A-Za-z]{1,5})\)/g)].map(m => m[1]);
+  return { citation: match[1].trim(), path };
+}
+
+export function findSubsection(subsections: Subsection[], path: string[]): Subsection | null {
+  return resolvePinpoint({ fullText: '', subsections }, path)?.subsection || null;
+}
+
+/**
+ * Look up a pinpoint path in a section, keeping the enclosing subsections and
+ * the section lead-in so the cited text can be read in context.
+ */
+export function resolvePinpoint(
+  section: { fullText: string; subsections?: Subsection[] },
+  path: string[]
+): PinpointMatch | null {
+  if (!section.subsections || path.length === 0) return null;
+
+  const ancestors: Subsection[] = [];
+  let level = section.subsections;
+  let node: Subsection | undefined;
+
+  for (const label of path) {
+    if (node) ancestors.push(node);
+    node = level.find(child => child.label === label);
+    if (!node) return null;
+    level = node.children;
+  }
+
+  // full_text has one paragraph per line; the lead-in is everything before "(1)"
+  const leadIn: string[] = [];
+  for (const line of section.fullText.split('\n')) {
+    if (LEADING_LABEL.test(line)) break;
+    leadIn.push(line);
+  }
+
+  return { path, subsection: node!, ancestors, leadIn: leadIn.join('\n').trim() };
+}
+
+export function formatPath(path: string[]): string {
+  return path.map(label => `(${label})`).join('');
+}
+
+/**
+ * Render a subsection and its descendants back to labelled paragraphs.
+ */
+export function formatSubsection(node: Subsection, depth: number = 0): string {
+  const indent = '  '.repeat(depth);
+  const lines = [`${indent}(${node.label})${node.text ? ' ' + node.text : ''}`];
+  for (const child of node.children) {
+    lines.push(formatSubsection(child, depth + 1));
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,58 @@
+/**
+ * Abbreviations and terms of art used in Washington practice, each with the
+ * words the RCW, WAC and court rules use for it. A search for any entry in a
+ * group also finds the others. Keep entries lower-case; multi-word entries
+ * are matched as phrases.
+ */
+export const SYNONYM_GROUPS: string[][] = [
+  ['dui', 'driving under the influence', 'driving while intoxicated', 'dwi'],
+  ['dv', 'domestic violence'],
+  ['lfo', 'legal financial obligation', 'legal financial obligations'],
+  ['ui', 'unemployment insurance', 'unemployment compensation'],
+  ['l&i', 'lni', 'labor and industries', 'department of labor and industries'],
+  ['dol', 'department of licensing'],
+  ['dshs', 'department of social and health services'],
+  ['doc', 'department of corrections'],
+  ['dcyf', 'department of children, youth, and families'],
+  ['cps', 'child protective services'],
+  ['esd', 'employment security department'],
+  ['pfml', 'paid family and medical leave'],
+  ['pra', 'public records act'],
+  ['opma', 'open public meetings act'],
+  ['hoa', 'homeowners\' association', 'homeowners association'],
+  ['llc', 'limited liability company'],
+  ['ssosa', 'special sex offender sentencing alternative'],
+  ['dosa', 'drug offender sentencing alternative'],
+  ['cco', 'community corrections officer'],
+  ['gal', 'guardian ad litem'],
+  ['dpoa', 'durable power of attorney'],
+  ['ptsd', 'posttraumatic stress disorder', 'post-traumatic stress disorder'],
+  ['tbi', 'traumatic brain injury'],
+  ['cdl', 'commercial driver\'s license', 'commercial driver license'],
+  ['ignition interlock', 'interlock device'],
+  ['landlord', 'lessor'],
+  ['tenant', 'lessee']
+];
+
+// Longest dictionary entry, in words, for matching runs of query words
+export const MAX_SYNONYM_WORDS = Math.max(...SYNONYM_GROUPS.flat().map(entry => entry.split(' ').length));
+
+function normalise(term: string): string {
+  return term.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+const LOOKUP = new Map<string, string[]>();
+for (const group of SYNONYM_GROUPS) {
+  for (const entry of group) {
+    const others = group.filter(other => other !== entry);
+    LOOKUP.set(entry, [...new Set([...(LOOKUP.get(entry) || []), ...others])]);
+  }
+}
+
+/**
+ * The other ways of writing a term, or an empty list when the dictionary
+ * has none: synonymsFor('DUI') -> ['driving under the influence', ...].
+ */
+export function synonymsFor(term: string): string[] {
+  return LOOKUP.get(normalise(term)) || [];
+}
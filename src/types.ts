@@ -1,3 +1,19 @@
+export interface Subsection {
+  label: string;        // '1', 'a', 'i', 'A'
+  text: string;         // text of this subsection, without its label or children
+  children: Subsection[];
+}
+
+export interface PinpointMatch {
+  path: string[];             // ['1', 'a']
+  subsection: Subsection;
+  ancestors: Subsection[];    // enclosing subsections, outermost first
+  leadIn: string;             // section text before the first subsection
+}
+
+// repealed, recodified and expired sections are inactive
+export type SectionStatus = 'active' | 'repealed' | 'recodified' | 'expired' | 'contingent';
+
 export interface RCWSection {
   id?: number;
   citation: string;
@@ -8,12 +24,27 @@ export interface RCWSection {
   chapterName?: string;
   sectionName?: string;
   fullText: string;
+  subsections?: Subsection[];
+  historyNote?: string;
+  notes?: string;
+  status?: SectionStatus;
+  statusTarget?: string;      // new citation of a recodified section
+  statusNote?: string;        // e.g. "Repealed by 2019 c 46 § 5."
   effectiveDate?: string;
+  effectiveUntil?: string;    // set when a later text replaces this one
+  variant?: string;           // 'until 2026-07-01' / 'from 2026-07-01' for sections with two texts
+  pendingVersion?: PendingVersion;
   lastAmended?: string;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+// The text of a section that takes effect on a later date
+export interface PendingVersion {
+  sectionName?: string;
+  effectiveDate: string;
+}
+
 export interface WACSection {
   id?: number;
   citation: string;
@@ -24,19 +55,123 @@ export interface WACSection {
   chapterName?: string;
   sectionName?: string;
   fullText: string;
+  subsections?: Subsection[];
+  historyNote?: string;
+  notes?: string;
+  status?: SectionStatus;
+  statusTarget?: string;
+  statusNote?: string;
   effectiveDate?: string;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+export interface CourtRuleComment {
+  number: string;       // '8', cited as "RPC 1.7 cmt 8"
+  text: string;
+}
+
+export interface CourtRule {
+  ruleSet: string;
+  ruleNumber: string;
+  ruleName?: string;
+  fullText: string;     // the rule alone, without comments or history
+  comments: CourtRuleComment[];
+  historyNote?: string; // "Adopted effective September 1, 1985; Amended effective ..."
+  effectiveDate?: string;
+  updatedAt?: string;
+}
+
 export interface SearchResult {
-  type: 'RCW' | 'WAC';
+  type: 'RCW' | 'WAC' | 'Court Rule';
   citation: string;
   titleName?: string;
   chapterName?: string;
   sectionName?: string;
   snippet: string;
-  score?: number;
+  score?: number;             // negated bm25, so higher is better
+  status?: SectionStatus;
+}
+
+export interface SearchPage {
+  results: SearchResult[];
+  offset: number;
+  nextOffset?: number;        // set when more results follow
+  ftsQuery: string;           // the FTS5 query that was run
+  fallback?: boolean;         // the query was rejected and searched as plain terms
+  expansions?: Array<{ term: string; synonyms: string[] }>;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  offset?: number;
+  includeInactive?: boolean;  // include repealed, recodified and expired sections
+  types?: Array<'RCW' | 'WAC' | 'COURT_RULE'>;
+  title?: string;             // RCW or WAC title number: "46", "296"
+  chapter?: string;           // "46.61" (RCW) or "296-24" (WAC)
+  ruleSet?: string;           // court rule set: "RPC", "CrRLJ"
+  expandSynonyms?: boolean;   // search abbreviations under their other forms (default: true)
+  matchAny?: boolean;         // match any word rather than all, for plain-English questions
+}
+
+export interface SemanticResult {
+  type: 'RCW' | 'WAC' | 'COURT_RULE';
+  citation: string;           // "46.61.502" or "RPC 1.7"
+  sectionName?: string;
+  path?: string;              // best-matching subsection, "(2)"
+  similarity?: number;        // cosine similarity of the best-matching passage
+  vectorRank?: number;        // 1-based rank by similarity
+  keywordRank?: number;       // 1-based rank by bm25
+  snippet?: string;
+  score: number;              // reciprocal rank fusion of the two ranks
+}
+
+export interface CitationEdge {
+  fromType: 'RCW' | 'WAC' | 'COURT_RULE';
+  fromCitation: string;       // "46.61.502" or "RPC 1.7"
+  toType: 'RCW' | 'WAC' | 'COURT_RULE';
+  toKind: 'section' | 'chapter' | 'title' | 'rule';
+  toCitation: string;
+  context?: string;
+}
+
+export interface Definition {
+  term: string;
+  scope: 'section' | 'chapter' | 'title';
+  type: 'RCW' | 'WAC';
+  citation: string;           // defining section
+  text: string;
+}
+
+export interface SectionVersion {
+  id: number;
+  type: 'RCW' | 'WAC' | 'COURT_RULE';
+  citation: string;           // "46.61.502" or "RPC 1.7"
+  variant?: string;           // RCWSection.variant
+  sectionName?: string;
+  fullText: string;
+  historyNote?: string;
+  effectiveFrom?: string;     // ISO date, when known
+  recordedAt: string;
+  supersededAt?: string;
+}
+
+export interface SectionChange {
+  type: 'RCW' | 'WAC' | 'COURT_RULE';
+  citation: string;
+  fromId: number | null;      // latest version before the period; null for new sections
+  toId: number;               // latest version in the period
+}
+
+export interface SessionLaw {
+  citation: string;           // as written: "2019 c 232 § 1"
+  year?: number;
+  session?: string;           // "ex.s.", "2nd sp.s."
+  chapter?: string;
+  sections: string[];
+  effectiveDate?: string;     // ISO date, when the history or notes state it
+  note?: string;              // remark such as "Initiative Measure No. 1639, approved November 6, 2018"
+  prior?: boolean;            // listed after "Prior:"
 }
 
 export interface LawMetadata {
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { initializeDatabase } from '../src/database/init.js';
+import { rebuildCitationGraph } from '../src/database/citation-graph.js';
+
+test('rebuildCitationGraph links sections in both directions', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'citation-graph-'));
+  const db = initializeDatabase(join(dir, 'test.db'));
+
+  const insert = db.prepare(`
+    INSERT INTO rcw (citation, title_num, chapter_num, section_num, full_text)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+  insert.run('46.61.502', '46', '46.61', '502', 'A person is guilty under this section, RCW 46.61.502, and see RCW 46.61.5055 and chapter 46.20 RCW.');
+  insert.run('46.61.504', '46', '46.61', '504', 'Penalties are as provided in RCW 46.61.5055 and RCW 46.61.502(6).');
+
+  const stats = rebuildCitationGraph(db);
+  const citedBy = db.prepare(`
+    SELECT from_citation FROM citations WHERE to_type = 'RCW' AND to_citation = ? ORDER BY from_citation
+  `).all('46.61.5055').map((row: any) => row.from_citation);
+  const selfReferences = db.prepare(`SELECT COUNT(*) as count FROM citations WHERE from_citation = to_citation`).get() as any;
+  db.close();
+  rmSync(dir, { recursive: true, force: true });
+
+  assert.deepEqual(stats, { sources: 2, references: 4 });
+  assert.deepEqual(citedBy, ['46.61.502', '46.61.504']);
+  assert.equal(selfReferences.count, 0);
+});
+
+test('rebuildCitationGraph indexes the text of a two-text section in effect today', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'citation-graph-'));
+  const db = initializeDatabase(join(dir, 'test.db'));
+
+  const insert = db.prepare(`
+    INSERT INTO rcw (citation, variant, title_num, chapter_num, section_num, full_text, effective_date, effective_until)
+    VALUES ('46.61.5055', ?, '46', '46.61', '5055', ?, ?, ?)
+  `);
+  insert.run('until 2999-01-01', 'As provided in RCW 46.61.502.', null, '2999-01-01');
+  insert.run('from 2999-01-01', 'As provided in RCW 46.61.504.', '2999-01-01', null);
+
+  const stats = rebuildCitationGraph(db);
+  const references = db.prepare(`SELECT to_citation FROM citations WHERE from_citation = '46.61.5055'`).all();
+  db.close();
+  rmSync(dir, { recursive: true, force: true });
+
+  assert.deepEqual(stats, { sources: 1, references: 1 });
+  assert.deepEqual(references, [{ to_citation: '46.61.502' }]);
+});
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { compareWACNumbers, extractCitations, formatCitation, parseCitation } from '../src/citations.js';
+
+test('parseCitation recognises the written forms of RCW and WAC citations', () => {
+  const rcw = { type: 'RCW', citation: '46.61.502', path: [] };
+  assert.deepEqual(parseCitation('RCW 46.61.502'), rcw);
+  assert.deepEqual(parseCitation('R.C.W. § 46.61.502'), rcw);
+  assert.deepEqual(parseCitation('46.61.502 RCW'), rcw);
+  assert.deepEqual(parseCitation('46.61.502'), rcw);
+  assert.deepEqual(parseCitation('rcw 9a.36.021(1)(c)'), { type: 'RCW', citation: '9A.36.021', path: ['1', 'c'] });
+  assert.deepEqual(parseCitation('WAC 296-24-12005'), { type: 'WAC', citation: '296-24-12005', path: [] });
+  assert.deepEqual(parseCitation('296-24-12005(2)'), { type: 'WAC', citation: '296-24-12005', path: ['2'] });
+});
+
+test('parseCitation recognises court rules and comments', () => {
+  assert.deepEqual(parseCitation('CrRLJ 3.2'), { type: 'COURT_RULE', citation: '3.2', ruleSet: 'CRRLJ', path: [], comment: undefined });
+  assert.deepEqual(parseCitation('RPC 1.7 cmt 3'), { type: 'COURT_RULE', citation: '1.7', ruleSet: 'RPC', path: [], comment: '3' });
+  assert.deepEqual(parseCitation('CR 12(b)(6)'), { type: 'COURT_RULE', citation: '12', ruleSet: 'CR', path: ['b', '6'], comment: undefined });
+  assert.equal(formatCitation(parseCitation('crrlj 3.2')!), 'CrRLJ 3.2');
+});
+
+test('parseCitation rejects text that is not a citation', () => {
+  assert.equal(parseCitation('driving under the influence'), null);
+  assert.equal(parseCitation('RCW 296-24-12005'), null);
+  assert.equal(parseCitation('XYZ 1.2'), null);
+});
+
+test('extractCitations finds section lists, chapters, titles and court rules', () => {
+  const references = extractCitations([
+    '(1) "Bodily injury" has the meaning in RCW 9A.04.110(4)(a).',
+    '(2) A violation of RCW 46.61.502, 46.61.504, or 46.61.520 is subject to chapter 46.20 RCW and Title 51 RCW.',
+    '(3) Release is governed by CrRLJ 3.2 and WAC 296-24-12005 through 296-24-12015.'
+  ].join('\n'));
+
+  assert.deepEqual(references.map(r => `${r.type} ${r.kind} ${r.citation}`), [
+    'RCW section 9A.04.110',
+    'RCW section 46.61.502',
+    'RCW section 46.61.504',
+    'RCW section 46.61.520',
+    'WAC section 296-24-12005',
+    'WAC section 296-24-12015',
+    'RCW chapter 46.20',
+    'RCW title 51',
+    'COURT_RULE rule CRRLJ 3.2'
+  ]);
+  assert.equal(references[0].context, '(1) "Bodily injury" has the meaning in RCW 9A.04.110(4)(a).');
+});
+
+test('compareWACNumbers orders chapters by number and sections as decimals', () => {
+  assert.deepEqual(['296-155', '296-17A', '296-24', '296-17', '296-9'].sort(compareWACNumbers), ['296-9', '296-17', '296-17A', '296-24', '296-155']);
+  assert.deepEqual(['51', '296', '132A', '16'].sort(compareWACNumbers), ['16', '51', '132A', '296']);
+  assert.deepEqual(
+    ['296-24-125', '296-24-12005', '296-24-1200', '296-155-610', '296-24-120', '296-24-075'].sort(compareWACNumbers),
+    ['296-24-075', '296-24-120', '296-24-1200', '296-24-12005', '296-24-125', '296-155-610']
+  );
+});
@@ -0,0 +1,256 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { basename, join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import Database from 'better-sqlite3';
+import { initializeDatabase } from '../src/database/init.js';
+import { addCourtRulesTables } from '../src/database/add-court-rules.js';
+import { LawDatabase } from '../src/database/database.js';
+import {
+  CourtRulesScraper,
+  normaliseRuleText,
+  parseRuleList,
+  ruleListUrl
+} from '../src/scraper/court-rules-scraper.js';
+import {
+  COURT_RULE_SET_CONFIG,
+  decimalRuleNumber,
+  hundredsRuleNumber,
+  letterSubRuleNumber,
+  loadLocalRuleSets,
+  wholeRuleNumber
+} from '../src/scraper/court-rule-sets.js';
+import { extractPdfLines } from '../src/scraper/pdf-layout.js';
+import { COURT_RULE_ROUTES, startFixtureServer } from './fixture-server.js';
+import { COURT_RULE_SETS } from '../src/citations.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+function fixture(name: string): Buffer {
+  return readFileSync(join(__dirname, 'fixtures/court-rules', name));
+}
+
+function config(ruleSet: string) {
+  return COURT_RULE_SET_CONFIG.find(c => c.ruleSet === ruleSet)!;
+}
+
+const RPC_1_7 = {
+  ruleSet: 'RPC',
+  ruleNumber: '1.7',
+  ruleName: 'Rule 1.7',
+  pdfUrl: 'https://www.courts.wa.gov/court_rules/pdf/RPC/GA_RPC_01_07_00.pdf'
+};
+
+test('every configured rule set is recognised in citations', () => {
+  for (const { ruleSet } of COURT_RULE_SET_CONFIG) {
+    assert.ok(COURT_RULE_SETS[ruleSet], ruleSet);
+  }
+  assert.equal(ruleListUrl(config('CRR')), 'https://www.courts.wa.gov/court_rules/?fa=court_rules.list&group=sup&set=CrR');
+});
+
+test('rule number decoders read PDF names the way each set numbers its rules', () => {
+  assert.equal(decimalRuleNumber([1, 7, 0]), '1.7');
+  assert.equal(decimalRuleNumber([3, 2, 1]), '3.2.1');
+  assert.equal(letterSubRuleNumber([1, 0, 0]), '1.0');
+  assert.equal(letterSubRuleNumber([1, 8, 1]), '1.8a');
+  assert.equal(wholeRuleNumber([12, 0, 0]), '12');
+  assert.equal(wholeRuleNumber([4, 1, 0]), '4.1');
+  assert.equal(hundredsRuleNumber([4, 4, 0]), '404');
+});
+
+test('parseRuleList reads one entry per rule PDF of the set', () => {
+  const listUrl = ruleListUrl(config('CR'));
+  assert.deepEqual(parseRuleList(fixture('list-cr.html').toString('utf8'), config('CR'), listUrl), [
+    { ruleSet: 'CR', ruleNumber: '1', ruleName: 'Scope of Rules', pdfUrl: 'https://www.courts.wa.gov/court_rules/pdf/CR/SUP_CR_01_00_00.pdf' },
+    { ruleSet: 'CR', ruleNumber: '4', ruleName: 'Process', pdfUrl: 'https://www.courts.wa.gov/court_rules/pdf/CR/SUP_CR_04_00_00.pdf' },
+    {
+      ruleSet: 'CR',
+      ruleNumber: '4.1',
+      ruleName: 'Dissolution, Legal Separation, or Declaration Concerning Validity',
+      pdfUrl: 'https://www.courts.wa.gov/court_rules/pdf/CR/SUP_CR_04_01_00.pdf'
+    },
+    { ruleSet: 'CR', ruleNumber: '12', ruleName: 'Defenses and Objections', pdfUrl: 'https://www.courts.wa.gov/court_rules/pdf/CR/SUP_CR_12_00_00.pdf' }
+  ]);
+});
+
+test('loadLocalRuleSets reads local rule sources into scraper configs', () => {
+  const [kclcr] = loadLocalRuleSets(join(__dirname, 'fixtures/court-rules/local-rules.json'));
+  assert.equal(kclcr.ruleSet, 'KCLCR');
+  assert.equal(kclcr.group, 'local');
+  assert.equal(kclcr.name, 'King County Local Civil Rules (King County Superior Court)');
+  assert.equal(ruleListUrl(kclcr), 'https://kingcounty.gov/en/court/superior-court/courts-jails-legal-system/local-rules');
+  assert.equal('LCR 40.1 - Trial'.match(kclcr.linkPattern!)?.[1], '40.1');
+
+  const dir = mkdtempSync(join(tmpdir(), 'local-rules-'));
+  const load = (sources: unknown) => {
+    const path = join(dir, 'local-rules.json');
+    writeFileSync(path, JSON.stringify(sources));
+    return () => loadLocalRuleSets(path);
+  };
+  const source = { ruleSet: 'PCLR', court: 'Pierce County Superior Court', name: 'Pierce County Local Rules', listUrl: 'https://example.org/', linkPattern: '^PCLR (\\d+)' };
+
+  try {
+    assert.deepEqual(loadLocalRuleSets(join(dir, 'missing.json')), []);
+    assert.equal(load([source])()[0].ruleSet, 'PCLR');
+    assert.throws(load([{ ...source, listUrl: '' }]), /source 1 has no listUrl/);
+    assert.throws(load([{ ...source, ruleSet: 'cr' }]), /reuses the statewide rule set CR/);
+    assert.throws(load([{ ...source, linkPattern: '^PCLR \\d+' }]), /without a group/);
+    assert.throws(load([{ ...source, linkPattern: '^PCLR (' }]), /invalid linkPattern/);
+    assert.throws(load(source), /expected an array/);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('parseRuleList reads local rule numbers from the link text', () => {
+  const [kclcr] = loadLocalRuleSets(join(__dirname, 'fixtures/court-rules/local-rules.json'));
+  const listUrl = 'https://kingcounty.gov/en/court/local-rules';
+  assert.deepEqual(parseRuleList(fixture('list-kclcr.html').toString('utf8'), kclcr, listUrl), [
+    { ruleSet: 'KCLCR', ruleNumber: '4', ruleName: 'Process', pdfUrl: 'https://kingcounty.gov/-/media/court/local-rules/lcr-4.pdf' },
+    { ruleSet: 'KCLCR', ruleNumber: '26', ruleName: 'Discovery', pdfUrl: 'https://kingcounty.gov/-/media/court/local-rules/lcr-26.pdf?rev=3' },
+    { ruleSet: 'KCLCR', ruleNumber: '40.1', ruleName: 'Rule 40.1', pdfUrl: 'https://kingcounty.gov/-/media/court/local-rules/lcr-40.1.pdf' }
+  ]);
+});
+
+test('normaliseRuleText drops running headers and footers', async () => {
+  const rpc = normaliseRuleText(await extractPdfLines(new Uint8Array(fixture('GA_RPC_01_07_00.pdf'))), RPC_1_7);
+  assert.equal(rpc.ruleName, 'CONFLICT OF INTEREST: CURRENT CLIENTS');
+  assert.match(rpc.fullText, /^RPC 1\.7 CONFLICT OF INTEREST/);
+  assert.match(rpc.fullText, /materially limited\.\n\(b\) Notwithstanding/);
+  assert.doesNotMatch(rpc.fullText, /RULES OF PROFESSIONAL CONDUCT|Page \d of 2/);
+
+  const ralj = normaliseRuleText(await extractPdfLines(new Uint8Array(fixture('CLJ_RALJ_01_01_00.pdf'))), {
+    ruleSet: 'RALJ',
+    ruleNumber: '1.1',
+    ruleName: 'Scope of Rules',
+    pdfUrl: ''
+  });
+  assert.equal(ralj.ruleName, 'Scope of Rules');
+  assert.doesNotMatch(ralj.fullText, /9\/1\/2020/);
+  assert.equal(ralj.effectiveDate, '2020-09-01');
+
+  const cr = normaliseRuleText(await extractPdfLines(new Uint8Array(fixture('SUP_CR_06_00_00.pdf'))), {
+    ruleSet: 'CR',
+    ruleNumber: '6',
+    ruleName: 'Rule 6',
+    pdfUrl: ''
+  });
+  assert.equal(cr.ruleName, 'TIME');
+  assert.match(cr.fullText, /shall be included:\n {2}\(1\) unless/);
+  assert.match(cr.fullText, /any act\.\n1 See GR 3\. Court closures are announced by the presiding judge\.$/);
+  assert.doesNotMatch(cr.fullText, /SUPERIOR COURT CIVIL RULES|Page \d of 2/);
+});
+
+test('normaliseRuleText keeps comments and history out of the rule text', async () => {
+  const rpc = normaliseRuleText(await extractPdfLines(new Uint8Array(fixture('GA_RPC_01_07_00.pdf'))), RPC_1_7);
+  assert.match(rpc.fullText, /confirmed in writing\.$/);
+  assert.deepEqual(rpc.comments.map(comment => comment.number), ['1', '8']);
+  assert.match(rpc.comments[1].text, /^Even where there is no direct adverseness, .* will be limited\.$/);
+  assert.equal(rpc.historyNote, 'Originally effective September 1, 1985; Amended effective September 1, 2006.');
+  assert.equal(rpc.effectiveDate, '2006-09-01');
+
+  const ralj = normaliseRuleText(await extractPdfLines(new Uint8Array(fixture('CLJ_RALJ_01_01_00.pdf'))), {
+    ruleSet: 'RALJ',
+    ruleNumber: '1.1',
+    ruleName: 'Scope of Rules',
+    pdfUrl: ''
+  });
+  assert.deepEqual(ralj.comments, []);
+  assert.equal(ralj.historyNote, 'Adopted effective July 1, 1980.');
+  assert.doesNotMatch(ralj.fullText, /Adopted effective/);
+});
+
+test('CourtRulesScraper runs a rule set through every stage into the database', async t => {
+  t.mock.method(console, 'log', () => {});
+  const dir = mkdtempSync(join(tmpdir(), 'court-rules-'));
+  const dbPath = join(dir, 'test.db');
+  initializeDatabase(dbPath).close();
+  addCourtRulesTables(dbPath);
+
+  const list = '<a href="../court_rules/pdf/RPC/GA_RPC_01_07_00.pdf">RPC 1.7 - Conflict of Interest: Current Clients</a>';
+  const fetched: string[] = [];
+  const scraper = new CourtRulesScraper({
+    dbPath,
+    baseUrl: 'http://courts.test',
+    delayMs: 0,
+    stages: {
+      fetch: async url => {
+        fetched.push(url);
+        return url.endsWith('.pdf') ? new Uint8Array(fixture(basename(url))) : new TextEncoder().encode(list);
+      }
+    }
+  });
+  await scraper.scrapeRuleSet(config('RPC'));
+  scraper.close();
+
+  const laws = new LawDatabase(dbPath);
+  const rule = laws.getCourtRule('RPC', '1.7')!;
+  laws.close();
+  rmSync(dir, { recursive: true, force: true });
+
+  assert.deepEqual(fetched, [
+    'http://courts.test/court_rules/?fa=court_rules.list&group=ga&set=RPC',
+    'http://courts.test/court_rules/pdf/RPC/GA_RPC_01_07_00.pdf'
+  ]);
+  assert.equal(rule.ruleName, 'Conflict of Interest: Current Clients');
+  assert.match(rule.fullText, /^RPC 1\.7 CONFLICT OF INTEREST/);
+  assert.deepEqual(rule.comments.map(comment => comment.number), ['1', '8']);
+  assert.match(rule.historyNote!, /^Originally effective/);
+  assert.equal(rule.effectiveDate, '2006-09-01');
+});
+
+test('CourtRulesScraper downloads the recorded list pages and PDFs into court_rules', async t => {
+  t.mock.method(console, 'log', () => {});
+  const dir = mkdtempSync(join(tmpdir(), 'court-rules-'));
+  const dbPath = join(dir, 'test.db');
+  initializeDatabase(dbPath).close();
+  addCourtRulesTables(dbPath);
+
+  const server = await startFixtureServer(COURT_RULE_ROUTES);
+  try {
+    await new CourtRulesScraper({ dbPath, baseUrl: server.url, delayMs: 0 }).scrapeAll([config('RPC'), config('RALJ')]);
+  } finally {
+    await server.close();
+  }
+
+  const db = new Database(dbPath, { readonly: true });
+  const rows = db.prepare(`
+    SELECT rule_set, rule_number, rule_name, full_text, comments, history_note, effective_date
+    FROM court_rules ORDER BY rule_set, rule_number
+  `).all();
+  db.close();
+  rmSync(dir, { recursive: true, force: true });
+
+  assert.deepEqual(server.requests, Object.keys(COURT_RULE_ROUTES));
+  assert.deepEqual(rows, [
+    {
+      rule_set: 'RALJ',
+      rule_number: '1.1',
+      rule_name: 'SCOPE OF RULES',
+      full_text: 'RALJ 1.1 SCOPE OF RULES\n(a) Scope. These rules establish the procedure for review by the superior court of a final decision of a court of limited jurisdiction.',
+      comments: null,
+      history_note: 'Adopted effective July 1, 1980.',
+      effective_date: '2020-09-01'
+    },
+    {
+      rule_set: 'RPC',
+      rule_number: '1.7',
+      rule_name: 'Conflict of Interest: Current Clients',
+      full_text: [
+        'RPC 1.7 CONFLICT OF INTEREST: CURRENT CLIENTS',
+        '(a) Except as provided in paragraph (b), a lawyer shall not represent a client if the representation involves a concurrent conflict of interest.',
+        '  (1) the representation of one client will be directly adverse to another client; or',
+        '  (2) there is a significant risk that the representation will be materially limited.',
+        '(b) Notwithstanding the existence of a concurrent conflict of interest under paragraph (a), a lawyer may represent a client if each affected client gives informed consent, confirmed in writing.'
+      ].join('\n'),
+      comments: JSON.stringify([
+        { number: '1', text: 'Loyalty and independent judgment are essential elements in the lawyer\'s relationship to a client.' },
+        { number: '8', text: 'Even where there is no direct adverseness, a conflict of interest exists if there is a significant risk that a lawyer\'s ability to consider alternatives will be limited.' }
+      ]),
+      history_note: 'Originally effective September 1, 1985; Amended effective September 1, 2006.',
+      effective_date: '2006-09-01'
+    }
+  ]);
+});
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { initializeDatabase } from '../src/database/init.js';
+import { parseDefinitions, rebuildDefinitions } from '../src/database/definitions.js';
+
+test('parseDefinitions splits terms and reads the scope from the lead-in', () => {
+  const definitions = parseDefinitions({
+    citation: '9A.36.005',
+    sectionName: 'Definitions.',
+    fullText: [
+      'The definitions in this section apply throughout this chapter unless the context clearly requires otherwise.',
+      '(1) "Assault" means an intentional touching.',
+      '(2) "Weapon" or "deadly weapon" includes:',
+      '(a) Firearms; and',
+      '(b) Knives.'
+    ].join('\n')
+  });
+
+  assert.deepEqual(definitions.map(d => [d.term, d.scope]), [
+    ['Assault', 'chapter'],
+    ['Weapon', 'chapter'],
+    ['deadly weapon', 'chapter']
+  ]);
+  assert.equal(definitions[2].text, '(2) "Weapon" or "deadly weapon" includes:\n(a) Firearms; and\n(b) Knives.');
+});
+
+test('rebuildDefinitions gives definitions chapters title scope', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'definitions-'));
+  const db = initializeDatabase(join(dir, 'test.db'));
+
+  const insert = db.prepare(`
+    INSERT INTO rcw (citation, title_num, chapter_num, section_num, chapter_name, section_name, full_text)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  insert.run('46.04.670', '46', '46.04', '670', 'DEFINITIONS', 'Vehicle.', '"Vehicle" includes every device capable of being moved upon a public highway.');
+  insert.run('46.61.005', '46', '46.61', '005', 'RULES OF THE ROAD', 'Definitions.', 'For the purposes of this section, "vehicle" means a car.');
+  insert.run('46.61.502', '46', '46.61', '502', 'RULES OF THE ROAD', 'Driving under the influence.', '"Vehicle" means nothing here.');
+
+  const stats = rebuildDefinitions(db);
+  const rows = db.prepare('SELECT term, scope, citation, chapter_num, title_num FROM definitions ORDER BY citation').all();
+  db.close();
+  rmSync(dir, { recursive: true, force: true });
+
+  assert.deepEqual(stats, { sections: 2, definitions: 2 });
+  assert.deepEqual(rows, [
+    { term: 'Vehicle', scope: 'title', citation: '46.04.670', chapter_num: '46.04', title_num: '46' },
+    { term: 'vehicle', scope: 'section', citation: '46.61.005', chapter_num: '46.61', title_num: '46' }
+  ]);
+});
@@ -0,0 +1,24 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { countChangedWords, diffWords, formatRedline } from '../src/diff.js';
+
+test('diffWords marks changed words and keeps paragraphs', () => {
+  const before = '(1) A person is guilty of driving under the influence.\n(2) The offense is a gross misdemeanor.';
+  const after = '(1) A person is guilty of driving while under the influence.\n(2) The offense is a class C felony.';
+  const parts = diffWords(before, after);
+
+  assert.equal(
+    formatRedline(parts),
+    '(1) A person is guilty of driving **while** under the influence.\n(2) The offense is a ~~gross misdemeanor.~~ **class C felony.**'
+  );
+  assert.deepEqual(countChangedWords(parts), { inserted: 4, deleted: 2 });
+  assert.equal(
+    formatRedline(diffWords(`Intro.\n${before}`, `Intro.\n${after}`), true),
+    '(1) A person is guilty of driving **while** under the influence.\n...\n(2) The offense is a ~~gross misdemeanor.~~ **class C felony.**'
+  );
+});
+
+test('diffWords of identical text has no changes', () => {
+  const parts = diffWords('Same text.', 'Same text.');
+  assert.deepEqual(parts, [{ type: 'equal', text: 'Same text.' }]);
+});
@@ -0,0 +1,113 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { initializeDatabase } from '../src/database/init.js';
+import { buildVectorIndex } from '../src/database/vector-index.js';
+import { LawDatabase } from '../src/database/database.js';
+import {
+  DEFAULT_EMBEDDING_MODEL,
+  TransformersModule,
+  blobToVector,
+  cosineSimilarity,
+  hashingEmbedding,
+  hashingProvider,
+  loadEmbeddingProvider,
+  vectorToBlob
+} from '../src/embeddings.js';
+import { buildSubsectionTree } from '../src/subsections.js';
+
+const DEPOSIT = [
+  'Moneys paid as deposit or security for performance by tenant—Statement and basis for retention.',
+  '(1) Within thirty days after the termination of the rental agreement, the landlord shall give a full and specific statement of the basis for retaining any of the deposit.',
+  '(2) No portion of any deposit shall be withheld on account of wear resulting from ordinary use of the premises.'
+];
+
+test('hashingEmbedding places related text closer together', () => {
+  const question = hashingEmbedding('can my landlord keep my deposit for normal wear');
+  const deposit = hashingEmbedding(DEPOSIT.join('\n'));
+  const dui = hashingEmbedding('A person is guilty of driving while under the influence of intoxicating liquor.');
+
+  assert.ok(cosineSimilarity(question, deposit) > cosineSimilarity(question, dui));
+  assert.ok(Math.abs(cosineSimilarity(deposit, deposit) - 1) < 1e-5);
+  assert.ok(cosineSimilarity(hashingEmbedding('lessor'), hashingEmbedding('landlord')) > 0.3);
+});
+
+test('vectors survive a round trip through a BLOB', () => {
+  const vector = hashingEmbedding('security deposit');
+  assert.deepEqual(blobToVector(Buffer.from(vectorToBlob(vector))), vector);
+});
+
+test('buildVectorIndex embeds sections and subsections for semanticSearch', async () => {
+  const dir = mkdtempSync(join(tmpdir(), 'embeddings-'));
+  const dbPath = join(dir, 'test.db');
+  const db = initializeDatabase(dbPath);
+
+  const insert = db.prepare(`
+    INSERT INTO rcw (citation, title_num, chapter_num, section_num, section_name, full_text, subsections)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  const body = DEPOSIT.slice(1);
+  insert.run('59.18.280', '59', '59.18', '280', DEPOSIT[0], body.join('\n'), JSON.stringify(buildSubsectionTree(body).subsections));
+  insert.run('46.61.502', '46', '46.61', '502', 'Driving under the influence.', 'A person is guilty of driving while under the influence of intoxicating liquor.', null);
+
+  const first = await buildVectorIndex(db, hashingProvider);
+  const second = await buildVectorIndex(db, hashingProvider);
+  db.close();
+
+  const laws = new LawDatabase(dbPath);
+  const question = 'can my landlord keep my deposit for normal wear';
+  const [vector] = await hashingProvider.embed([question]);
+  const results = laws.semanticSearch(question, vector, hashingProvider.name, { limit: 5 });
+  const count = laws.countEmbeddings(hashingProvider.name);
+  laws.close();
+  rmSync(dir, { recursive: true, force: true });
+
+  assert.deepEqual(first, { passages: 4, embedded: 4, removed: 0 });
+  assert.equal(second.embedded, 0);
+  assert.equal(count, 4);
+  assert.equal(results[0].citation, '59.18.280');
+  assert.equal(results[0].vectorRank, 1);
+  assert.equal(results[0].keywordRank, 1);
+});
+
+// Stands in for @xenova/transformers: a pipeline giving each text a 3-number vector
+function stubTransformers(): TransformersModule & { models: string[] } {
+  const models: string[] = [];
+  return {
+    models,
+    env: { allowRemoteModels: true, localModelPath: '' },
+    pipeline: async (_task, model) => {
+      models.push(model);
+      return async text => ({ data: [text.length, 0, 1] });
+    }
+  };
+}
+
+test('loadEmbeddingProvider uses the sentence-transformer model by default', async () => {
+  const transformers = stubTransformers();
+  const provider = await loadEmbeddingProvider(undefined, { loadTransformers: async () => transformers });
+
+  assert.equal(provider.name, DEFAULT_EMBEDDING_MODEL);
+  assert.equal(provider.dimensions, 3);
+  assert.equal(provider.lexical, undefined);
+  assert.deepEqual(await provider.embed(['deposit']), [Float32Array.from([7, 0, 1])]);
+  assert.deepEqual(transformers.models, [DEFAULT_EMBEDDING_MODEL]);
+  // Only build:embeddings may download the model
+  assert.equal(transformers.env.allowRemoteModels, false);
+
+  await loadEmbeddingProvider('transformers', { allowDownload: true, loadTransformers: async () => transformers });
+  assert.equal(transformers.env.allowRemoteModels, true);
+});
+
+test('loadEmbeddingProvider falls back to hashing only when no provider is named', async t => {
+  const warn = t.mock.method(console, 'error', () => {});
+  const missing = async (): Promise<TransformersModule> => { throw new Error('Cannot find package'); };
+
+  assert.equal(await loadEmbeddingProvider(undefined, { loadTransformers: missing }), hashingProvider);
+  assert.equal(warn.mock.callCount(), 1);
+  await assert.rejects(loadEmbeddingProvider('transformers', { loadTransformers: missing }), /needs @xenova\/transformers/);
+  assert.equal(await loadEmbeddingProvider('hashing', { loadTransformers: missing }), hashingProvider);
+  await assert.rejects(loadEmbeddingProvider('openai'), /Unknown embedding provider "openai"/);
+});
@@ -0,0 +1,85 @@
+import { createServer } from 'http';
+import { readFileSync } from 'fs';
+import { AddressInfo } from 'net';
+import { extname, join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+// The sites the fixtures were saved from; links to them are served locally
+const RECORDED_ORIGINS = ['https://app.leg.wa.gov', 'https://www.courts.wa.gov'];
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.pdf': 'application/pdf'
+};
+
+// Where each scraper's requests are answered from, as saved from the sites
+export const RCW_ROUTES: Record<string, string> = {
+  '/RCW/': 'rcw/titles.html',
+  '/RCW/default.aspx?cite=46': 'rcw/title-46.html',
+  '/RCW/default.aspx?cite=46.61': 'rcw/chapter-46.61.html',
+  '/RCW/default.aspx?cite=46.61.502': 'rcw/section-46.61.502.html',
+  '/RCW/default.aspx?cite=46.61.5055': 'rcw/section-46.61.5055.html'
+};
+
+export const WAC_ROUTES: Record<string, string> = {
+  '/WAC/': 'wac/titles.html',
+  '/WAC/default.aspx?cite=296': 'wac/title-296.html',
+  '/WAC/default.aspx?cite=296-24': 'wac/chapter-296-24.html',
+  '/WAC/default.aspx?cite=296-24-12005': 'wac/section-296-24-12005.html'
+};
+
+export const COURT_RULE_ROUTES: Record<string, string> = {
+  '/court_rules/?fa=court_rules.list&group=ga&set=RPC': 'court-rules/list-rpc.html',
+  '/court_rules/pdf/RPC/GA_RPC_01_07_00.pdf': 'court-rules/GA_RPC_01_07_00.pdf',
+  '/court_rules/?fa=court_rules.list&group=clj&set=RALJ': 'court-rules/list-ralj.html',
+  '/court_rules/pdf/RALJ/CLJ_RALJ_01_01_00.pdf': 'court-rules/CLJ_RALJ_01_01_00.pdf'
+};
+
+export interface FixtureServer {
+  url: string;                // "http://127.0.0.1:41234"
+  requests: string[];         // every path asked for, in order, including misses
+  close(): Promise<void>;
+}
+
+/**
+ * Serve saved pages and PDFs from test/fixtures on a local port. `routes`
+ * maps a request path and query ("/RCW/default.aspx?cite=46") to a fixture
+ * file ("rcw/title-46.html"); anything else is a 404. Links in the pages to
+ * the sites they were saved from are rewritten to this server, so a scraper
+ * following them never leaves the machine.
+ */
+export async function startFixtureServer(routes: Record<string, string>): Promise<FixtureServer> {
+  const requests: string[] = [];
+  let url = '';
+
+  const server = createServer((request, response) => {
+    const path = request.url || '/';
+    requests.push(path);
+
+    const file = routes[path];
+    if (!file) {
+      response.writeHead(404).end();
+      return;
+    }
+
+    let body: Buffer | string = readFileSync(join(__dirname, 'fixtures', file));
+    if (extname(file) === '.html') {
+      body = RECORDED_ORIGINS.reduce((html, origin) => html.split(origin).join(url), body.toString('utf8'));
+    }
+    response.writeHead(200, { 'Content-Type': CONTENT_TYPES[extname(file)] || 'application/octet-stream' }).end(body);
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url,
+    requests,
+    close: () => new Promise((resolve, reject) => {
+      server.closeAllConnections();
+      server.close(error => error ? reject(error) : resolve());
+    })
+  };
+}
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { currentEffectiveDate, lastAmended, parseHistoryNote } from '../src/history.js';
+
+test('parseHistoryNote splits session laws and reads effective dates', () => {
+  const laws = parseHistoryNote(
+    "2020 c 330 § 2 (effective July 1, 2021); 2019 c 232 § 1 (Initiative Measure No. 1639, approved November 6, 2018); " +
+    "1975-'76 2nd ex.s. c 38 §§ 2, 3; Code 1881 § 1234. Prior: 1961 c 12 § 46.61.506.",
+    'Effective date—2019 c 232: "This act takes effect January 1, 2020." [2019 c 232 § 9.]'
+  );
+
+  assert.deepEqual(laws, [
+    { citation: '2020 c 330 § 2', year: 2020, chapter: '330', sections: ['2'], note: 'effective July 1, 2021', effectiveDate: '2021-07-01' },
+    {
+      citation: '2019 c 232 § 1',
+      year: 2019,
+      chapter: '232',
+      sections: ['1'],
+      note: 'Initiative Measure No. 1639, approved November 6, 2018',
+      effectiveDate: '2020-01-01'
+    },
+    { citation: "1975-'76 2nd ex.s. c 38 §§ 2, 3", year: 1975, session: '2nd ex.s.', chapter: '38', sections: ['2', '3'] },
+    { citation: 'Code 1881 § 1234', sections: [] },
+    { citation: '1961 c 12 § 46.61.506', year: 1961, chapter: '12', sections: ['46.61.506'], prior: true }
+  ]);
+  assert.equal(lastAmended(laws), '2021-07-01');
+  assert.equal(currentEffectiveDate(laws), '2021-07-01');
+});
+
+test('lastAmended falls back to the year when no date is stated', () => {
+  const laws = parseHistoryNote('2022 c 16 § 54; 2017 c 336 § 3; 1998 c 213 § 3.');
+  assert.equal(lastAmended(laws), '2022');
+  assert.equal(currentEffectiveDate(laws), undefined);
+});
+
+test('parseHistoryNote skips a note whose effective date is not a date', () => {
+  const laws = parseHistoryNote(
+    '2022 c 16 § 54; 2021 c 8 § 2.',
+    'Effective date—2022 c 16: "This act takes effect July 1, 2022."\n' +
+    'Effective date—2022 c 16 § 54: "This section takes effect Sometime 1, 2022."\n' +
+    'Effective date—2021 c 8: "This act takes effect Sometime 1, 2021."'
+  );
+  assert.deepEqual(laws, [
+    { citation: '2022 c 16 § 54', year: 2022, chapter: '16', sections: ['54'], effectiveDate: '2022-07-01' },
+    { citation: '2021 c 8 § 2', year: 2021, chapter: '8', sections: ['2'] }
+  ]);
+});
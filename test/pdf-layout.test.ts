@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import {
+  buildLines,
+  extractPdfLines,
+  formatParagraphs,
+  layoutParagraphs,
+  stripRunningText
+} from '../src/scraper/pdf-layout.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+async function fixtureLines(name: string) {
+  return extractPdfLines(new Uint8Array(readFileSync(join(__dirname, 'fixtures/court-rules', name))));
+}
+
+test('buildLines groups items by baseline and reads them left to right', () => {
+  const lines = buildLines([
+    { text: 'second', x: 72, y: 686, width: 40, height: 11 },
+    { text: 'by order,', x: 72, y: 700, width: 45, height: 11 },
+    { text: '1', x: 117, y: 704, width: 4, height: 7 },
+    { text: 'the period', x: 124, y: 700, width: 50, height: 11 },
+    { text: 'Period', x: 72, y: 672, width: 30, height: 11 },
+    { text: 'Enlarged to', x: 250, y: 672, width: 55, height: 11 },
+    { text: ' ', x: 310, y: 672, width: 3, height: 11 }
+  ]);
+
+  assert.deepEqual(lines, [
+    { text: 'by order,1 the period', x: 72, y: 700, height: 11 },
+    { text: 'second', x: 72, y: 686, height: 11 },
+    { text: 'Period | Enlarged to', x: 72, y: 672, height: 11 }
+  ]);
+});
+
+test('extractPdfLines reads each page as positioned lines', async () => {
+  const pages = await fixtureLines('GA_RPC_01_07_00.pdf');
+
+  assert.equal(pages.length, 2);
+  assert.deepEqual(pages[0].slice(0, 3).map(line => line.text), ['RULES OF PROFESSIONAL CONDUCT', 'RPC 1.7', 'CONFLICT OF INTEREST: CURRENT CLIENTS']);
+  assert.deepEqual(pages[0][5], { text: '(1) the representation of one client will be directly adverse to another client; or', x: 90, y: 648, height: 11 });
+  assert.equal(pages[0][pages[0].length - 1].text, 'Page 1 of 2');
+});
+
+test('stripRunningText drops lines repeated at the top or bottom of the pages', async () => {
+  const pages = stripRunningText(await fixtureLines('SUP_CR_06_00_00.pdf'));
+
+  assert.equal(pages[0][0].text, 'CR 6');
+  assert.equal(pages[0][pages[0].length - 1].text, 'Court closures are announced by the presiding judge.');
+  assert.deepEqual(pages[1].map(line => line.text), [
+    'court in no way affects the power of a court to do any act.',
+    '[Adopted effective July 1, 1967; Amended effective September 1, 2005.]'
+  ]);
+});
+
+test('layoutParagraphs keeps the hyphen of a compound broken across lines', () => {
+  const line = (text: string, i: number) => ({ text, x: 72, y: 700 - i * 14, height: 11 });
+  const { paragraphs } = layoutParagraphs([[
+    '(a) A non-',
+    'party or self-',
+    'represented litigant may ask for a court-',
+    'appointed lawyer in the court-',
+    'room; the judg-',
+    'ment is entered by the clerk.',
+    '(b) The courtroom is open.'
+  ].map(line)]);
+
+  assert.deepEqual(paragraphs.map(paragraph => paragraph.text), [
+    '(a) A non-party or self-represented litigant may ask for a court-appointed lawyer in the courtroom; the judgment is entered by the clerk.',
+    '(b) The courtroom is open.'
+  ]);
+});
+
+test('layoutParagraphs rebuilds paragraphs, indentation, tables and footnotes', async () => {
+  const { paragraphs, footnotes } = layoutParagraphs(stripRunningText(await fixtureLines('SUP_CR_06_00_00.pdf')));
+
+  assert.equal(formatParagraphs(paragraphs), [
+    'CR 6 TIME',
+    '(a) Computation. In computing any period of time prescribed or allowed by these rules, the day of the act from which the designated period of time begins to run shall not be included. The last day of the period so computed shall be included:',
+    '  (1) unless it is a Saturday, a Sunday or a legal holiday; or',
+    '    (i) when the court is closed by order,1 the period runs until the next day the court is open.',
+    '  (2) the period is extended as the court directs.',
+    '(b) Enlargement. The court may enlarge the period:',
+    'Period | Enlarged to',
+    '10 days | 20 days',
+    '(c) Unaffected by Expiration of Term. The continued existence or expiration of a term of court in no way affects the power of a court to do any act.',
+    '[Adopted effective July 1, 1967; Amended effective September 1, 2005.]'
+  ].join('\n'));
+  assert.deepEqual(footnotes, [{ text: '1 See GR 3. Court closures are announced by the presiding judge.', indent: 0 }]);
+});
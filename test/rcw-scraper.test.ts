@@ -0,0 +1,155 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import Database from 'better-sqlite3';
+import { initializeDatabase } from '../src/database/init.js';
+import { RCWScraper, parseChapterLinks, parseTitleLinks } from '../src/scraper/rcw-scraper.js';
+import { parseSectionVariants } from '../src/scraper/section-parser.js';
+import { RCW_ROUTES, startFixtureServer } from './fixture-server.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const RCW_URL = 'https://app.leg.wa.gov/RCW/';
+
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, 'fixtures/rcw', name), 'utf8');
+}
+
+test('parseTitleLinks and parseChapterLinks resolve links against the RCW page', () => {
+  assert.deepEqual(parseTitleLinks(fixture('titles.html'), RCW_URL), [
+    { num: '46', name: 'Motor vehicles', url: `${RCW_URL}default.aspx?cite=46` }
+  ]);
+  assert.deepEqual(parseChapterLinks(fixture('title-46.html'), '46', 'http://localhost/RCW/'), [
+    { num: '46.61', name: 'Rules of the road', url: 'http://localhost/RCW/default.aspx?cite=46.61' }
+  ]);
+});
+
+test('RCWScraper writes every section of the recorded pages', async t => {
+  t.mock.method(console, 'log', () => {});
+  const dir = mkdtempSync(join(tmpdir(), 'rcw-scraper-'));
+  const dbPath = join(dir, 'test.db');
+  initializeDatabase(dbPath).close();
+
+  const server = await startFixtureServer(RCW_ROUTES);
+  try {
+    await new RCWScraper({ dbPath, rcwUrl: `${server.url}/RCW/`, delayMs: 0 }).scrapeAllTitles();
+  } finally {
+    await server.close();
+  }
+
+  const db = new Database(dbPath, { readonly: true });
+  const rows = db.prepare(`
+    SELECT citation, variant, title_num, chapter_num, section_num, title_name, chapter_name, section_name,
+           full_text, subsections, history_note, notes, status, status_target, status_note,
+           effective_date, effective_until, last_amended
+    FROM rcw ORDER BY citation, effective_date
+  `).all() as any[];
+  const progress = db.prepare(`
+    SELECT title_num, chapter_num, status, error_message FROM scraper_progress WHERE type = 'RCW' ORDER BY chapter_num
+  `).all();
+  db.close();
+  rmSync(dir, { recursive: true, force: true });
+
+  // Links to app.leg.wa.gov were followed to the fixture server
+  assert.deepEqual([...server.requests].sort(), Object.keys(RCW_ROUTES).sort());
+
+  const [dui] = parseSectionVariants(fixture('section-46.61.502.html'), '46.61.502');
+  const [until, from] = parseSectionVariants(fixture('section-46.61.5055.html'), '46.61.5055');
+  const chapter = { title_num: '46', chapter_num: '46.61', title_name: 'Motor vehicles', chapter_name: 'Rules of the road' };
+  assert.deepEqual(rows, [
+    {
+      citation: '46.61.502',
+      variant: '',
+      ...chapter,
+      section_num: '502',
+      section_name: 'Driving under the influence.',
+      full_text: dui.fullText,
+      subsections: JSON.stringify(dui.subsections),
+      history_note: '2022 c 16 § 54; 2017 c 336 § 3; 1998 c 213 § 3.',
+      notes: 'Effective date—2022 c 16: See note following RCW 9.41.010.\nFinding—Intent—2017 c 336: See note following RCW 46.61.5055.',
+      status: 'active',
+      status_target: null,
+      status_note: null,
+      effective_date: null,
+      effective_until: null,
+      last_amended: '2022'
+    },
+    {
+      citation: '46.61.5055',
+      variant: 'until 2026-01-01',
+      ...chapter,
+      section_num: '5055',
+      section_name: 'Alcohol and drug violators—Penalty schedule. (Effective until January 1, 2026.)',
+      full_text: until.fullText,
+      subsections: JSON.stringify(until.subsections),
+      history_note: '2024 c 125 § 3; 2020 c 330 § 1.',
+      notes: 'Effective date—2024 c 125 § 3: "Section 3 of this act takes effect June 6, 2024." [2024 c 125 § 6.]',
+      status: 'active',
+      status_target: null,
+      status_note: null,
+      effective_date: '2024-06-06',
+      effective_until: '2026-01-01',
+      last_amended: '2024-06-06'
+    },
+    {
+      citation: '46.61.5055',
+      variant: 'from 2026-01-01',
+      ...chapter,
+      section_num: '5055',
+      section_name: 'Alcohol and drug violators—Penalty schedule. (Effective January 1, 2026.)',
+      full_text: from.fullText,
+      subsections: JSON.stringify(from.subsections),
+      history_note: '2024 c 125 § 4; 2024 c 125 § 3; 2020 c 330 § 1.',
+      notes: 'Effective date—2024 c 125 § 4: "Section 4 of this act takes effect January 1, 2026." [2024 c 125 § 7.]',
+      status: 'active',
+      status_target: null,
+      status_note: null,
+      effective_date: '2026-01-01',
+      effective_until: null,
+      last_amended: '2026-01-01'
+    }
+  ]);
+  assert.match(rows[0].full_text, /^\(1\) A person is guilty of driving while under the influence/);
+
+  assert.deepEqual(progress, [
+    { title_num: '46', chapter_num: '', status: 'completed', error_message: null },
+    { title_num: '46', chapter_num: '46.61', status: 'completed', error_message: null }
+  ]);
+});
+
+test('RCWScraper --only-errors retries every chapter of a title whose listing failed', async t => {
+  t.mock.method(console, 'log', () => {});
+  const dir = mkdtempSync(join(tmpdir(), 'rcw-scraper-'));
+  const dbPath = join(dir, 'test.db');
+  const setup = initializeDatabase(dbPath);
+  // The title page failed last time, so no chapter of it was recorded
+  setup.prepare(`
+    INSERT INTO scraper_progress (type, title_num, chapter_num, status, error_message)
+    VALUES ('RCW', '46', '', 'error', 'Request failed with status code 503')
+  `).run();
+  setup.close();
+
+  const server = await startFixtureServer(RCW_ROUTES);
+  try {
+    await new RCWScraper({ dbPath, rcwUrl: `${server.url}/RCW/`, delayMs: 0 }).scrapeAllTitles('only-errors');
+  } finally {
+    await server.close();
+  }
+
+  const db = new Database(dbPath, { readonly: true });
+  const sections = db.prepare('SELECT citation FROM rcw ORDER BY citation, effective_date').all();
+  const progress = db.prepare(`
+    SELECT title_num, chapter_num, status, error_message FROM scraper_progress WHERE type = 'RCW' ORDER BY chapter_num
+  `).all();
+  db.close();
+  rmSync(dir, { recursive: true, force: true });
+
+  assert.deepEqual([...server.requests].sort(), Object.keys(RCW_ROUTES).sort());
+  assert.deepEqual(sections, [{ citation: '46.61.502' }, { citation: '46.61.5055' }, { citation: '46.61.5055' }]);
+  assert.deepEqual(progress, [
+    { title_num: '46', chapter_num: '', status: 'completed', error_message: null },
+    { title_num: '46', chapter_num: '46.61', status: 'completed', error_message: null }
+  ]);
+});
@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { expandQuery, plainQuery, translateQuery } from '../src/search-query.js';
+
+test('translateQuery keeps FTS5 operators and quotes everything else', () => {
+  assert.equal(translateQuery('"implied consent" AND breath'), '"implied consent" AND "breath"');
+  assert.equal(translateQuery('speed OR velocity NOT parking'), '"speed" OR "velocity" NOT "parking"');
+  assert.equal(translateQuery('veh* (speed OR limit)'), '"veh"* AND ("speed" OR "limit")');
+  assert.equal(translateQuery('NEAR(speed limit, 5)'), 'NEAR("speed" "limit", 5)');
+  assert.equal(translateQuery("driver's WAC 296-24 title:vehicle"), '"driver\'s" AND "WAC" AND "296-24" AND "title:vehicle"');
+  assert.equal(translateQuery('and or not'), '"and" AND "or" AND "not"');
+});
+
+test('translateQuery repairs malformed queries', () => {
+  assert.equal(translateQuery('"unbalanced phrase'), '"unbalanced phrase"');
+  assert.equal(translateQuery('AND speed OR'), '"speed"');
+  assert.equal(translateQuery('(speed OR limit'), '("speed" OR "limit")');
+  assert.equal(translateQuery('speed) limit'), '"speed" AND "limit"');
+  assert.equal(translateQuery('NOT parking'), '');
+  assert.equal(translateQuery('*** - ()'), '');
+});
+
+test('plainQuery keeps only the words', () => {
+  assert.equal(plainQuery('NEAR(speed, limit) "x'), '"NEAR" "speed" "limit" "x"');
+});
+
+test('expandQuery searches dictionary terms under their other forms', () => {
+  const { ftsQuery, expansions } = expandQuery('L&I appeal NOT driving under the influence');
+  assert.equal(
+    ftsQuery,
+    '("L&I" OR "lni" OR "labor and industries" OR "department of labor and industries") AND "appeal" NOT ' +
+    '("driving under the influence" OR "dui" OR "driving while intoxicated" OR "dwi")'
+  );
+  assert.deepEqual(expansions.map(e => e.term), ['L&I', 'driving under the influence']);
+  assert.deepEqual(expandQuery('speed limit'), { ftsQuery: '"speed" AND "limit"', expansions: [] });
+});
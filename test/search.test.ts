@@ -0,0 +1,213 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { initializeDatabase } from '../src/database/init.js';
+import { addCourtRulesTables } from '../src/database/add-court-rules.js';
+import { LawDatabase } from '../src/database/database.js';
+
+function searchDatabase(): { dir: string; laws: LawDatabase } {
+  const dir = mkdtempSync(join(tmpdir(), 'search-'));
+  const dbPath = join(dir, 'test.db');
+  const db = initializeDatabase(dbPath);
+
+  const rcw = db.prepare(`
+    INSERT INTO rcw (citation, title_num, chapter_num, section_num, section_name, full_text)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  rcw.run('46.61.502', '46', '46.61', '502', 'Driving under the influence.', 'A person who drives a vehicle while impaired is guilty.');
+  rcw.run('46.61.400', '46', '46.61', '400', 'Basic rule and maximum limits.', 'No person shall drive a vehicle at a speed greater than is reasonable.');
+  rcw.run('46.20.308', '46', '46.20', '308', 'Implied consent.', 'Any person who operates a motor vehicle is deemed to have given consent.');
+  rcw.run('46.61.410', '46', '46.61', '410', 'Maximum vehicle speed.', 'The secretary may set limits on state highways.');
+  rcw.run('46.61.525', '46', '46.61', '525', 'Negligent driving—Second degree.', 'A person is guilty of negligent driving if he or she operates a motor vehicle in a manner that is negligent.');
+  rcw.run('4.22.005', '4', '4.22', '005', 'Effect of contributory fault.', 'Contributory negligence of the claimant diminishes damages.');
+  rcw.run('9A.36.021', '9A', '9A.36', '021', 'Assault in the second degree.', 'A person assaults another with a deadly weapon or vehicle.');
+
+  const wac = db.prepare(`
+    INSERT INTO wac (citation, title_num, chapter_num, section_num, section_name, full_text)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  wac.run('296-24-12005', '296', '296-24', '12005', 'Definitions.', 'Vehicle means any carriage used at a workplace.');
+  wac.run('296-155-610', '296', '296-155', '610', 'Motor vehicles.', 'Every vehicle shall have a service brake system.');
+  db.close();
+
+  addCourtRulesTables(dbPath);
+  const rules = initializeDatabase(dbPath);
+  rules.prepare(`
+    INSERT INTO court_rules (rule_set, rule_number, rule_name, full_text) VALUES (?, ?, ?, ?)
+  `).run('IRLJ', '2.1', 'Notice of infraction', 'A notice of infraction for a vehicle offense shall be filed.');
+  rules.close();
+
+  return { dir, laws: new LawDatabase(dbPath) };
+}
+
+test('searchLaws filters by code, title, chapter and rule set', () => {
+  const { dir, laws } = searchDatabase();
+  const citations = (options: Parameters<LawDatabase['searchLaws']>[1]) =>
+    laws.searchLaws('vehicle', options).map(r => r.citation).sort();
+
+  try {
+    assert.equal(citations({}).length, 9);
+    assert.deepEqual(citations({ title: '46' }), ['46.20.308', '46.61.400', '46.61.410', '46.61.502', '46.61.525']);
+    assert.deepEqual(citations({ chapter: '46.61' }), ['46.61.400', '46.61.410', '46.61.502', '46.61.525']);
+    assert.deepEqual(citations({ chapter: 'chapter 296-24 WAC' }), ['296-24-12005']);
+    assert.deepEqual(citations({ types: ['WAC'] }), ['296-155-610', '296-24-12005']);
+    assert.deepEqual(citations({ ruleSet: 'irlj' }), ['IRLJ 2.1']);
+    assert.deepEqual(citations({ title: '46', ruleSet: 'IRLJ' }), []);
+  } finally {
+    laws.close();
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('searchLaws ranks catchline matches above body matches', () => {
+  const { dir, laws } = searchDatabase();
+
+  try {
+    assert.deepEqual(laws.searchLaws('speed').map(r => r.citation), ['46.61.410', '46.61.400']);
+    assert.equal(laws.searchLaws('vehicle', { limit: 1 }).length, 1);
+  } finally {
+    laws.close();
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('searchLaws accepts text that is not valid FTS5', () => {
+  const { dir, laws } = searchDatabase();
+
+  try {
+    assert.deepEqual(laws.searchLaws('296-24').map(r => r.citation), ['296-24-12005']);
+    assert.deepEqual(laws.searchLaws('"implied consent').map(r => r.citation), ['46.20.308']);
+    assert.deepEqual(laws.searchLaws('vehicle: speed').map(r => r.citation).sort(), ['46.61.400', '46.61.410']);
+    assert.deepEqual(laws.searchLaws('vehicle NOT person', { types: ['RCW'] }).map(r => r.citation), ['46.61.410']);
+  } finally {
+    laws.close();
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('searchLawsPage runs translated queries with groups without falling back', () => {
+  const { dir, laws } = searchDatabase();
+  const search = (query: string) => {
+    const page = laws.searchLawsPage(query, { types: ['RCW'] });
+    return { ftsQuery: page.ftsQuery, fallback: page.fallback, citations: page.results.map(r => r.citation).sort() };
+  };
+
+  try {
+    assert.deepEqual(search('vehicle (speed OR consent)'), {
+      ftsQuery: '"vehicle" AND ("speed" OR "consent")',
+      fallback: undefined,
+      citations: ['46.20.308', '46.61.400', '46.61.410']
+    });
+    assert.deepEqual(search('(speed OR consent) NOT implied veh*').citations, ['46.61.400', '46.61.410']);
+    assert.deepEqual(search('"implied consent" (motor OR highway)').citations, ['46.20.308']);
+  } finally {
+    laws.close();
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('searchLaws returns a section with two texts once, as in effect today', () => {
+  const { dir, laws } = searchDatabase();
+  const db = initializeDatabase(join(dir, 'test.db'));
+  const rcw = db.prepare(`
+    INSERT INTO rcw (citation, variant, title_num, chapter_num, section_num, section_name, full_text, effective_date, effective_until)
+    VALUES (?, ?, '46', '46.61', ?, ?, ?, ?, ?)
+  `);
+  rcw.run('46.61.5055', 'until 2020-01-01', '5055', 'Penalty schedule. (Effective until January 1, 2020.)', 'Penalties within seven years.', null, '2020-01-01');
+  rcw.run('46.61.5055', 'from 2020-01-01', '5055', 'Penalty schedule. (Effective January 1, 2020.)', 'Penalties within ten years.', '2020-01-01', null);
+  rcw.run('46.61.506', 'until 2999-01-01', '506', 'Tests. (Effective until January 1, 2999.)', 'Penalties follow the breath test.', null, '2999-01-01');
+  rcw.run('46.61.506', 'from 2999-01-01', '506', 'Tests. (Effective January 1, 2999.)', 'Penalties follow the blood test.', '2999-01-01', null);
+  db.close();
+
+  try {
+    const results = laws.searchLaws('penalties');
+    assert.deepEqual(results.map(r => [r.citation, r.sectionName]).sort(), [
+      ['46.61.5055', 'Penalty schedule. (Effective January 1, 2020.)'],
+      ['46.61.506', 'Tests. (Effective until January 1, 2999.)']
+    ]);
+    assert.deepEqual(laws.searchLaws('seven'), []);
+    assert.deepEqual(laws.searchLaws('blood'), []);
+  } finally {
+    laws.close();
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('searchLaws stems terms and expands abbreviations', () => {
+  const { dir, laws } = searchDatabase();
+
+  try {
+    assert.deepEqual(laws.searchLaws('negligence', { types: ['RCW'] }).map(r => r.citation).sort(), ['4.22.005', '46.61.525']);
+
+    const dui = laws.searchLawsPage('DUI');
+    assert.deepEqual(dui.results.map(r => r.citation), ['46.61.502']);
+    assert.deepEqual(dui.expansions, [{ term: 'DUI', synonyms: ['driving under the influence', 'driving while intoxicated', 'dwi'] }]);
+    assert.deepEqual(laws.searchLaws('DUI', { expandSynonyms: false }), []);
+
+    // An expanded term is a group, which must still combine with other words
+    const withWord = laws.searchLawsPage('DUI impaired');
+    assert.deepEqual(withWord.results.map(r => r.citation), ['46.61.502']);
+    assert.equal(withWord.ftsQuery, '("DUI" OR "driving under the influence" OR "driving while intoxicated" OR "dwi") AND "impaired"');
+    assert.equal(withWord.fallback, undefined);
+    assert.deepEqual(withWord.expansions?.map(e => e.term), ['DUI']);
+  } finally {
+    laws.close();
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('searchLawsPage pages through the merged results', () => {
+  const { dir, laws } = searchDatabase();
+
+  try {
+    const all = laws.searchLaws('vehicle').map(r => r.citation);
+    const first = laws.searchLawsPage('vehicle', { limit: 3 });
+    const second = laws.searchLawsPage('vehicle', { limit: 3, offset: first.nextOffset });
+    const last = laws.searchLawsPage('vehicle', { limit: 3, offset: 6 });
+
+    assert.equal(first.nextOffset, 3);
+    assert.deepEqual([...first.results, ...second.results].map(r => r.citation), all.slice(0, 6));
+    assert.deepEqual(last.results.map(r => r.citation), all.slice(6));
+    assert.equal(last.nextOffset, undefined);
+  } finally {
+    laws.close();
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('findSimilar ranks sections by the distinctive terms they share', () => {
+  const { dir, laws } = searchDatabase();
+
+  try {
+    const similar = laws.findSimilar('RCW', '46.61.525')!;
+    const citations = similar.results.map(r => r.citation);
+
+    // "negligent" is in one other section, "vehicle" in nearly all of them
+    assert.equal(similar.terms[0], 'negligent');
+    assert.ok(similar.terms.indexOf('negligent') < similar.terms.indexOf('vehicle'));
+    assert.ok(!citations.includes('46.61.525'));
+    assert.ok(citations.includes('4.22.005'));
+    assert.ok(citations.indexOf('46.20.308') < citations.indexOf('46.61.400'));
+
+    assert.deepEqual(laws.findSimilar('COURT_RULE', 'IRLJ 2.1', { types: ['WAC'] })!.results.map(r => r.citation).sort(), ['296-155-610', '296-24-12005']);
+    assert.equal(laws.findSimilar('WAC', '296-1-001'), null);
+  } finally {
+    laws.close();
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('listWACChapters and listWACSections follow WAC numbering', () => {
+  const { dir, laws } = searchDatabase();
+
+  try {
+    assert.deepEqual(laws.listWACTitles().map(t => [t.titleNum, t.count]), [['296', 2]]);
+    assert.deepEqual(laws.listWACChapters('296').map(c => c.chapterNum), ['296-24', '296-155']);
+    assert.deepEqual(laws.listWACSections('296-24').map(s => s.citation), ['296-24-12005']);
+  } finally {
+    laws.close();
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { parseSectionPage, parseSectionVariants } from '../src/scraper/section-parser.js';
+import { buildSubsectionTree, findSubsection, resolvePinpoint, splitPinpoint } from '../src/subsections.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+}
+
+test('parseSectionPage keeps only the statutory body', () => {
+  const parsed = parseSectionPage(fixture('rcw/section-46.61.502.html'), '46.61.502');
+
+  assert.equal(parsed.sectionName, 'Driving under the influence.');
+  assert.match(parsed.fullText, /^\(1\) A person is guilty of driving/);
+  assert.match(parsed.fullText, /\(iii\) An out-of-state offense comparable/);
+  assert.doesNotMatch(parsed.fullText, /Menu|Beginning of Chapter|PDF|46\.61\.503|NOTES|2017 c 336/);
+  assert.equal(parsed.fullText.split('\n').length, 15);
+});
+
+test('parseSectionPage separates the history note and notes', () => {
+  const parsed = parseSectionPage(fixture('rcw/section-46.61.502.html'), '46.61.502');
+
+  assert.equal(parsed.historyNote, '2022 c 16 § 54; 2017 c 336 § 3; 1998 c 213 § 3.');
+  assert.equal(parsed.notes, [
+    'Effective date—2022 c 16: See note following RCW 9.41.010.',
+    'Finding—Intent—2017 c 336: See note following RCW 46.61.5055.'
+  ].join('\n'));
+});
+
+test('parseSectionVariants splits a section with two texts in effect', () => {
+  const [current, pending] = parseSectionVariants(fixture('rcw/section-46.61.5055.html'), '46.61.5055');
+
+  assert.equal(current.sectionName, 'Alcohol and drug violators—Penalty schedule. (Effective until January 1, 2026.)');
+  assert.equal(current.variant, 'until 2026-01-01');
+  assert.equal(current.effectiveUntil, '2026-01-01');
+  assert.match(current.fullText, /seven years/);
+  assert.equal(current.historyNote, '2024 c 125 § 3; 2020 c 330 § 1.');
+
+  assert.equal(pending.variant, 'from 2026-01-01');
+  assert.equal(pending.effectiveFrom, '2026-01-01');
+  assert.match(pending.fullText, /ten years/);
+  assert.doesNotMatch(pending.fullText, /seven years/);
+  assert.match(pending.notes!, /January 1, 2026/);
+
+  assert.deepEqual(parseSectionVariants(fixture('rcw/section-46.61.502.html'), '46.61.502').map(s => s.variant), ['']);
+});
+
+test('parseSectionPage builds the subsection tree', () => {
+  const { subsections } = parseSectionPage(fixture('rcw/section-46.61.502.html'), '46.61.502');
+
+  assert.deepEqual(subsections.map(s => s.label), ['1', '2', '3', '4', '5']);
+  assert.deepEqual(subsections[0].children.map(s => s.label), ['a', 'b', 'c', 'd']);
+  assert.deepEqual(subsections[2].children.map(s => s.label), ['a', 'b']);
+  assert.equal(subsections[2].text, '');
+  assert.deepEqual(findSubsection(subsections, ['5', 'b'])!.children.map(s => s.label), ['i', 'ii', 'iii']);
+  assert.match(findSubsection(subsections, ['1', 'a'])!.text, /^And the person has, within two hours/);
+});
+
+test('buildSubsectionTree tells lettered (i) from roman (i)', () => {
+  const letters = 'abcdefgh'.split('').map(l => `(${l}) item ${l}`);
+  const { leadIn, subsections } = buildSubsectionTree([
+    'The definitions in this section apply throughout this chapter.',
+    ...letters,
+    '(i) item i',
+    '(j) item j',
+    '(k)(i) first',
+    '(ii) second',
+    'continued'
+  ]);
+
+  assert.equal(leadIn, 'The definitions in this section apply throughout this chapter.');
+  assert.deepEqual(subsections.map(s => s.label), [...'abcdefghijk']);
+  assert.deepEqual(subsections[10].children.map(s => s.label), ['i', 'ii']);
+  assert.equal(subsections[10].children[1].text, 'second\ncontinued');
+});
+
+test('splitPinpoint separates the subsection path', () => {
+  assert.deepEqual(splitPinpoint('46.61.502(1)(a)'), { citation: '46.61.502', path: ['1', 'a'] });
+  assert.deepEqual(splitPinpoint('46.61.502 (5)(b)(ii)'), { citation: '46.61.502', path: ['5', 'b', 'ii'] });
+  assert.deepEqual(splitPinpoint('46.61.502'), { citation: '46.61.502', path: [] });
+});
+
+test('resolvePinpoint keeps the lead-in and enclosing subsections', () => {
+  const fullText = [
+    'The definitions in this section apply throughout this chapter.',
+    '(1) "Vehicle" includes:',
+    '(a) Motor vehicles; and',
+    '(b) Trailers.',
+    '(2) "Owner" means the registered owner.'
+  ].join('\n');
+  const { subsections } = buildSubsectionTree(fullText.split('\n'));
+
+  const match = resolvePinpoint({ fullText, subsections }, ['1', 'b'])!;
+  assert.equal(match.subsection.text, 'Trailers.');
+  assert.deepEqual(match.ancestors.map(s => s.text), ['"Vehicle" includes:']);
+  assert.equal(match.leadIn, 'The definitions in this section apply throughout this chapter.');
+  assert.equal(resolvePinpoint({ fullText, subsections }, ['3']), null);
+});
@@ -0,0 +1,98 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import Database from 'better-sqlite3';
+import { initializeDatabase } from '../src/database/init.js';
+import { LawDatabase } from '../src/database/database.js';
+
+test('section_versions keeps replaced text and answers as_of lookups', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'section-versions-'));
+  const dbPath = join(dir, 'test.db');
+  const db = initializeDatabase(dbPath);
+
+  const save = db.prepare(`
+    INSERT OR REPLACE INTO rcw (citation, title_num, chapter_num, section_num, full_text, effective_date)
+    VALUES ('46.61.502', '46', '46.61', '502', ?, ?)
+  `);
+  save.run('(1) Old text.', '2013-09-28');
+  save.run('(1) Old text.', '2013-09-28');   // unchanged rescrape
+  save.run('(1) New text.', '2017-08-01');
+  db.close();
+
+  const laws = new LawDatabase(dbPath);
+  const versions = laws.getSectionVersions('RCW', '46.61.502');
+  const before = laws.getSectionAsOf('RCW', '46.61.502', '2016-05-01');
+  const after = laws.getSectionAsOf('RCW', '46.61.502', '2018-01-01');
+  const tooEarly = laws.getSectionAsOf('RCW', '46.61.502', '2000-01-01');
+  laws.close();
+  rmSync(dir, { recursive: true, force: true });
+
+  assert.equal(versions.length, 2);
+  assert.ok(versions[0].supersededAt);
+  assert.equal(versions[1].supersededAt, null);
+  assert.equal(before?.fullText, '(1) Old text.');
+  assert.equal(after?.fullText, '(1) New text.');
+  assert.equal(tooEarly, null);
+});
+
+test('rcw keeps both texts of a section and getRCW picks the one in effect', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'section-versions-'));
+  const dbPath = join(dir, 'test.db');
+
+  // A database from before variants, where citation alone was unique
+  const legacy = new Database(dbPath);
+  legacy.exec(`
+    CREATE TABLE rcw (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      citation TEXT UNIQUE NOT NULL,
+      title_num TEXT NOT NULL,
+      chapter_num TEXT NOT NULL,
+      section_num TEXT NOT NULL,
+      title_name TEXT,
+      chapter_name TEXT,
+      section_name TEXT,
+      full_text TEXT NOT NULL,
+      effective_date TEXT,
+      last_amended TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    INSERT INTO rcw (citation, title_num, chapter_num, section_num, section_name, full_text)
+    VALUES ('46.61.502', '46', '46.61', '502', 'Driving under the influence.', '(1) A person is guilty of driving while impaired.');
+    CREATE VIRTUAL TABLE rcw_fts USING fts5(citation, title_name, chapter_name, section_name, full_text, content=rcw, content_rowid=id);
+    INSERT INTO rcw_fts(rcw_fts) VALUES ('rebuild');
+  `);
+  legacy.close();
+
+  const db = initializeDatabase(dbPath);
+  const save = db.prepare(`
+    INSERT OR REPLACE INTO rcw (citation, variant, title_num, chapter_num, section_num, section_name, full_text, effective_date, effective_until)
+    VALUES ('46.61.5055', ?, '46', '46.61', '5055', ?, ?, ?, ?)
+  `);
+  save.run('until 2026-01-01', 'Penalty schedule. (Effective until January 1, 2026.)', '(1) Within seven years.', '2024-06-06', '2026-01-01');
+  save.run('from 2026-01-01', 'Penalty schedule. (Effective January 1, 2026.)', '(1) Within ten years.', '2026-01-01', null);
+  db.close();
+
+  const laws = new LawDatabase(dbPath);
+  const before = laws.getRCW('46.61.5055', '2025-06-01');
+  const after = laws.getRCW('RCW 46.61.5055', '2026-03-01');
+  const asOf = laws.getSectionAsOf('RCW', '46.61.5055', '2026-03-01');
+  const migrated = laws.searchLaws('impaired');
+  const sections = laws.listRCWSections('46.61');
+  laws.close();
+  rmSync(dir, { recursive: true, force: true });
+
+  assert.equal(before?.fullText, '(1) Within seven years.');
+  assert.equal(before?.effectiveUntil, '2026-01-01');
+  assert.deepEqual(before?.pendingVersion, { sectionName: 'Penalty schedule. (Effective January 1, 2026.)', effectiveDate: '2026-01-01' });
+  assert.equal(after?.fullText, '(1) Within ten years.');
+  assert.equal(after?.pendingVersion, undefined);
+  assert.equal(asOf?.fullText, '(1) Within ten years.');
+  assert.deepEqual(migrated.map(r => r.citation), ['46.61.502']);
+  assert.deepEqual(sections, [
+    { citation: '46.61.502', sectionName: 'Driving under the influence.' },
+    { citation: '46.61.5055', sectionName: 'Penalty schedule. (Effective January 1, 2026.)' }
+  ]);
+});
@@ -0,0 +1,254 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { initializeDatabase } from '../src/database/init.js';
+import { addCourtRulesTables } from '../src/database/add-court-rules.js';
+import { rebuildCitationGraph } from '../src/database/citation-graph.js';
+import { rebuildDefinitions } from '../src/database/definitions.js';
+import { buildVectorIndex } from '../src/database/vector-index.js';
+import { LawDatabase } from '../src/database/database.js';
+import { hashingProvider } from '../src/embeddings.js';
+import { RCWScraper } from '../src/scraper/rcw-scraper.js';
+import { WACScraper } from '../src/scraper/wac-scraper.js';
+import { CourtRulesScraper } from '../src/scraper/court-rules-scraper.js';
+import { COURT_RULE_SET_CONFIG } from '../src/scraper/court-rule-sets.js';
+import { createServer } from '../src/server.js';
+import { COURT_RULE_ROUTES, RCW_ROUTES, WAC_ROUTES, startFixtureServer } from './fixture-server.js';
+
+async function connect(dbPath: string): Promise<Client> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const connected = new Client({ name: 'server-test', version: '1.0.0' });
+  await Promise.all([createServer(new LawDatabase(dbPath)).connect(serverTransport), connected.connect(clientTransport)]);
+  return connected;
+}
+
+let dir: string;
+let client: Client;
+const called = new Set<string>();
+
+// Scrape the recorded pages into a fresh database, build its derived tables
+// as update-laws does, and connect a client to the server over it
+before(async () => {
+  // The index below is built with the hashing provider, so the server must embed queries with it too
+  process.env.EMBEDDING_PROVIDER = 'hashing';
+  dir = mkdtempSync(join(tmpdir(), 'server-'));
+  const dbPath = join(dir, 'test.db');
+  initializeDatabase(dbPath).close();
+  addCourtRulesTables(dbPath);
+
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'error', () => {});
+  const server = await startFixtureServer({ ...RCW_ROUTES, ...WAC_ROUTES, ...COURT_RULE_ROUTES });
+  try {
+    await new RCWScraper({ dbPath, rcwUrl: `${server.url}/RCW/`, delayMs: 0 }).scrapeAllTitles();
+    await new WACScraper({ dbPath, wacUrl: `${server.url}/WAC/`, delayMs: 0 }).scrapeAllTitles();
+    await new CourtRulesScraper({ dbPath, baseUrl: server.url, delayMs: 0 })
+      .scrapeAll(COURT_RULE_SET_CONFIG.filter(config => config.ruleSet === 'RPC' || config.ruleSet === 'RALJ'));
+  } finally {
+    await server.close();
+    mock.restoreAll();
+  }
+
+  const db = initializeDatabase(dbPath);
+  // A later text of the WAC section, for diff_section
+  db.prepare(`UPDATE wac SET full_text = replace(full_text, 'nationally', 'federally') WHERE citation = '296-24-12005'`).run();
+  rebuildCitationGraph(db);
+  rebuildDefinitions(db);
+  await buildVectorIndex(db, hashingProvider);
+  db.close();
+
+  client = await connect(dbPath);
+});
+
+after(async () => {
+  await client?.close();
+  if (dir) rmSync(dir, { recursive: true, force: true });
+});
+
+async function call(name: string, args: Record<string, unknown> = {}): Promise<string> {
+  called.add(name);
+  const result = await client.callTool({ name, arguments: args });
+  const [content] = result.content as Array<{ type: string; text: string }>;
+  return content.text;
+}
+
+test('get_rcw returns a subsection with its context', async () => {
+  const text = await call('get_rcw', { citation: '46.61.502(1)(a)' });
+  assert.match(text, /^# RCW 46\.61\.502\(1\)\(a\)\n\n\*\*Section\*\*: RCW 46\.61\.502: Driving under the influence\./);
+  assert.match(text, /## Context\n\n\(1\) A person is guilty of driving while under the influence/);
+  assert.match(text, /## Cited Text\n\n {2}\(a\) And the person has, within two hours after driving, an alcohol concentration of 0\.08/);
+
+  assert.equal(await call('get_rcw', { citation: '46.61.9999' }), 'RCW 46.61.9999 not found in database.');
+});
+
+test('get_rcw picks the text of a section in effect on a date', async () => {
+  assert.match(await call('get_rcw', { citation: '46.61.5055', as_of: '2025-06-01' }), /No prior offenses in seven years/);
+  assert.match(await call('get_rcw', { citation: '46.61.5055', as_of: '2026-03-01' }), /No prior offenses in ten years/);
+});
+
+test('get_wac returns the section with its history and effective date', async () => {
+  const text = await call('get_wac', { citation: 'WAC 296-24-12005' });
+  assert.match(text, /^# WAC 296-24-12005: Definitions\.\n\n\*\*Title 296\*\*: Labor and Industries, Department of\n\*\*Chapter 296-24\*\*: General safety and health standards\./);
+  assert.match(text, /\(1\) "Approved" means listed or approved by a federally recognized testing laboratory\./);
+  assert.match(text, /\*\*History\*\*: \[Statutory Authority: RCW 49\.17\.010/);
+  assert.match(text, /\*\*Effective Date\*\*: 2020-08-21/);
+});
+
+test('get_court_rule returns a rule, its comments or one comment', async () => {
+  const rule = await call('get_court_rule', { ruleSet: 'RPC', ruleNumber: '1.7' });
+  assert.match(rule, /^# RPC 1\.7: Conflict of Interest: Current Clients/);
+  assert.match(rule, /\n {2}\(1\) the representation of one client will be directly adverse to another client; or\n/);
+  assert.match(rule, /## Comments\n\n\*\*\[1\]\*\* /);
+  assert.match(rule, /\*\*\[8\]\*\* Even where there is no direct adverseness/);
+  assert.match(rule, /\*\*Effective Date\*\*: 2006-09-01/);
+
+  const withoutComments = await call('get_court_rule', { ruleSet: 'RPC', ruleNumber: '1.7', includeComments: false });
+  assert.doesNotMatch(withoutComments, /## Comments/);
+  assert.match(withoutComments, /_2 comments not shown\._/);
+
+  assert.equal(
+    await call('get_court_rule', { ruleSet: 'RPC', ruleNumber: '1.7 cmt 8' }),
+    '# RPC 1.7 cmt 8\n\n**Rule**: RPC 1.7: Conflict of Interest: Current Clients\n\n' +
+    'Even where there is no direct adverseness, a conflict of interest exists if there is a significant risk that a lawyer\'s ability to consider alternatives will be limited.'
+  );
+});
+
+test('list_court_rules lists the rules of each set', async () => {
+  assert.equal(
+    await call('list_court_rules'),
+    '# Court Rules\n\n\n## RALJ\n\n- **RALJ 1.1**: SCOPE OF RULES\n\n## RPC\n\n- **RPC 1.7**: Conflict of Interest: Current Clients\n'
+  );
+  assert.match(await call('list_court_rules', { ruleSet: 'RALJ' }), /- \*\*RALJ 1\.1\*\*: SCOPE OF RULES/);
+});
+
+test('resolve_citation looks up RCW, WAC and court rule citations', async () => {
+  assert.match(await call('resolve_citation', { citation: 'RCW 46.61.5055' }), /^# RCW 46\.61\.5055: Alcohol and drug violators—Penalty schedule\./);
+  assert.match(await call('resolve_citation', { citation: 'WAC 296-24-12005(2)' }), /"Exit" means that portion of a means of egress/);
+  assert.match(await call('resolve_citation', { citation: 'RPC 1.7 cmt 8' }), /^# RPC 1\.7 cmt 8\n/);
+  assert.match(await call('resolve_citation', { citation: 'RALJ 1.1' }), /^# RALJ 1\.1: SCOPE OF RULES/);
+});
+
+test('get_section_history lists the session laws that amended a section', async () => {
+  const text = await call('get_section_history', { citation: '46.61.502' });
+  assert.match(text, /^# Legislative History of RCW 46\.61\.502: Driving under the influence\./);
+  assert.match(text, /## Session Laws \(newest first\)\n\n- \*\*2022 c 16 § 54\*\*\n- \*\*2017 c 336 § 3\*\*\n- \*\*1998 c 213 § 3\*\*/);
+});
+
+test('get_references and get_cited_by follow the citation graph both ways', async () => {
+  const references = await call('get_references', { citation: 'RCW 46.61.5055' });
+  assert.match(references, /^# References in RCW 46\.61\.5055/);
+  assert.match(references, /- \*\*RCW 46\.61\.502\*\*: /);
+  assert.match(references, /- \*\*RCW 46\.61\.504\*\*: /);
+
+  const citedBy = await call('get_cited_by', { citation: 'RCW 46.61.502' });
+  assert.match(citedBy, /## Citing RCW 46\.61\.502 \(1\)\n\n- \*\*RCW 46\.61\.5055\*\*: /);
+});
+
+test('get_definition finds a term defined for the chapter', async () => {
+  assert.equal(
+    await call('get_definition', { term: 'exit', citation: 'WAC 296-24-12005' }),
+    '# "Exit" in WAC 296-24-12005\n\n**Defined in**: WAC 296-24-12005 (applies throughout chapter 296-24 WAC)\n\n' +
+    '(2) "Exit" means that portion of a means of egress which is separated from all other spaces of the building.\n'
+  );
+});
+
+test('diff_section redlines the recorded versions of a section', async () => {
+  const text = await call('diff_section', { citation: 'WAC 296-24-12005' });
+  assert.match(text, /^# Changes to WAC 296-24-12005/);
+  assert.match(text, /\*\*Changed\*\*: 1 words added, 1 removed/);
+  assert.match(text, /approved by a ~~nationally~~ \*\*federally\*\* recognized testing laboratory/);
+});
+
+test('search_laws finds sections by keyword', async () => {
+  const text = await call('search_laws', { query: 'intoxicating liquor' });
+  assert.match(text, /^# Search Results for "intoxicating liquor"\n\nShowing results 1-1:/);
+  assert.match(text, /## RCW 46\.61\.502: Driving under the influence\./);
+  assert.match(text, /<b>intoxicating<\/b> <b>liquor<\/b>/);
+});
+
+test('semantic_search and find_similar rank passages from the vector index', async () => {
+  const semantic = await call('semantic_search', { query: 'drunk driving penalty', limit: 3 });
+  assert.match(semantic, /^# Semantic Search Results for "drunk driving penalty"\n\n_Ranked with the lexical hashing-384 fallback rather than the embedding model/);
+  assert.match(semantic, /## RCW 46\.61\.502\(1\): Driving under the influence\.\n\*\*Matched by\*\*: hashing-384 vectors \(rank 1/);
+
+  const similar = await call('find_similar', { citation: 'RCW 46.61.502', limit: 2 });
+  assert.match(similar, /^# Similar to RCW 46\.61\.502/);
+  assert.match(similar, /## RCW 46\.61\.5055: Alcohol and drug violators—Penalty schedule\./);
+  assert.doesNotMatch(similar, /## RCW 46\.61\.502:/);
+});
+
+test('browse tools list titles, chapters and sections', async () => {
+  assert.equal(await call('list_rcw_titles'), '# RCW Titles\n\n- **Title 46**: Motor vehicles (2 sections)\n');
+  assert.equal(await call('list_rcw_chapters', { titleNum: '46' }), '# RCW Title 46 Chapters\n\n- **Chapter 46.61**: Rules of the road (2 sections)\n');
+  assert.equal(
+    await call('list_rcw_sections', { chapterNum: '46.61' }),
+    '# RCW Chapter 46.61 Sections\n\n- **46.61.502**: Driving under the influence.\n' +
+    '- **46.61.5055**: Alcohol and drug violators—Penalty schedule. (Effective January 1, 2026.)\n'
+  );
+  assert.equal(await call('list_wac_titles'), '# WAC Titles\n\n- **Title 296**: Labor and Industries, Department of (1 sections)\n');
+  assert.equal(
+    await call('list_wac_chapters', { titleNum: '296' }),
+    '# WAC Title 296 Chapters\n\n- **Chapter 296-24**: General safety and health standards. (1 sections)\n'
+  );
+  assert.equal(await call('list_wac_sections', { chapterNum: '296-24' }), '# WAC Chapter 296-24 Sections\n\n- **296-24-12005**: Definitions.\n');
+});
+
+test('get_statistics counts what was scraped', async () => {
+  const text = await call('get_statistics');
+  assert.match(text, /- \*\*RCW Sections\*\*: 2\n- \*\*WAC Sections\*\*: 1\n- \*\*Court Rules\*\*: 2 \(RALJ, RPC\)\n/);
+  assert.match(text, /- \*\*Court Rule Sets Configured\*\*: GR, ER, RPC, APR, ELC, CJC, CR, CrR, JuCR, MAR, SPR, RAP, CRLJ, CrRLJ, IRLJ, RALJ\n/);
+});
+
+test('each server reads its own database', async () => {
+  const emptyPath = join(dir, 'empty.db');
+  initializeDatabase(emptyPath).close();
+  addCourtRulesTables(emptyPath);
+  const other = await connect(emptyPath);
+
+  try {
+    const stats = await other.callTool({ name: 'get_statistics', arguments: {} });
+    assert.match((stats.content as Array<{ text: string }>)[0].text, /- \*\*RCW Sections\*\*: 0\n/);
+    assert.match(await call('get_statistics'), /- \*\*RCW Sections\*\*: 2\n/);
+  } finally {
+    await other.close();
+  }
+});
+
+test('a rule set scraped while the server runs is offered once the client lists tools again', async () => {
+  const newPath = join(dir, 'new-rules.db');
+  initializeDatabase(newPath).close();
+  addCourtRulesTables(newPath);
+  const other = await connect(newPath);
+  let changed = 0;
+  other.setNotificationHandler(ToolListChangedNotificationSchema, () => { changed++; });
+  const ruleSetSchema = async () => {
+    const { tools } = await other.listTools();
+    return (tools.find(tool => tool.name === 'get_court_rule')!.inputSchema.properties as any).ruleSet;
+  };
+
+  try {
+    assert.equal((await ruleSetSchema()).enum, undefined);
+    await other.callTool({ name: 'get_statistics', arguments: {} });
+    assert.equal(changed, 0);
+
+    const db = initializeDatabase(newPath);
+    db.prepare(`INSERT INTO court_rules (rule_set, rule_number, rule_name, full_text) VALUES ('CRR', '3.1', 'Right to and assignment of lawyer', 'The right to a lawyer.')`).run();
+    db.close();
+
+    await other.callTool({ name: 'get_statistics', arguments: {} });
+    assert.equal(changed, 1);
+    assert.deepEqual((await ruleSetSchema()).enum, ['CrR']);
+  } finally {
+    await other.close();
+  }
+});
+
+test('every tool the server lists is covered', async () => {
+  const { tools } = await client.listTools();
+  assert.deepEqual(tools.map(tool => tool.name).filter(name => !called.has(name)), []);
+});
@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { detectStatus } from '../src/status.js';
+import { initializeDatabase } from '../src/database/init.js';
+import { LawDatabase } from '../src/database/database.js';
+
+test('detectStatus reads repeal, recodification and expiry notices', () => {
+  assert.deepEqual(
+    detectStatus({ sectionName: 'Recodified as RCW 9.94A.515.', fullText: '' }),
+    { status: 'recodified', statusTarget: '9.94A.515', statusNote: 'Recodified as RCW 9.94A.515.' }
+  );
+  assert.deepEqual(
+    detectStatus({ sectionName: 'Repealed.', fullText: '', historyNote: '2019 c 46 § 5' }),
+    { status: 'repealed', statusNote: 'Repealed.' }
+  );
+  assert.equal(detectStatus({ fullText: '', historyNote: 'Repealed by 2003 c 53 § 407, effective July 1, 2004.' }).status, 'repealed');
+  assert.equal(detectStatus({ sectionName: 'Expired.', fullText: '' }).status, 'expired');
+  assert.equal(detectStatus({ sectionName: 'Fees. (Contingent effective date.)', fullText: '(1) Text.' }).status, 'contingent');
+  assert.deepEqual(detectStatus({ sectionName: 'Definitions.', fullText: '(1) "Repealed" means gone.' }), { status: 'active' });
+});
+
+test('searchLaws leaves out inactive sections unless asked', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'status-'));
+  const dbPath = join(dir, 'test.db');
+  const db = initializeDatabase(dbPath);
+  const insert = db.prepare(`
+    INSERT INTO rcw (citation, title_num, chapter_num, section_num, section_name, full_text, status)
+    VALUES (?, '46', '46.61', ?, ?, ?, ?)
+  `);
+  insert.run('46.61.502', '502', 'Driving under the influence.', 'A person is guilty of driving under the influence.', 'active');
+  insert.run('46.61.515', '515', 'Repealed.', 'Driving under the influence penalties.', 'repealed');
+  db.close();
+
+  const laws = new LawDatabase(dbPath);
+  const active = laws.searchLaws('influence', { limit: 20 });
+  const all = laws.searchLaws('influence', { limit: 20, includeInactive: true });
+  laws.close();
+  rmSync(dir, { recursive: true, force: true });
+
+  assert.deepEqual(active.map(r => r.citation), ['46.61.502']);
+  assert.deepEqual(all.map(r => r.citation).sort(), ['46.61.502', '46.61.515']);
+});
@@ -0,0 +1,176 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import Database from 'better-sqlite3';
+import { initializeDatabase } from '../src/database/init.js';
+import {
+  WACScraper,
+  parseChapterLinks,
+  parseSectionLinks,
+  parseSectionPage,
+  parseTitleLinks,
+  parseWACDate
+} from '../src/scraper/wac-scraper.js';
+import { WAC_ROUTES, startFixtureServer } from './fixture-server.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const WAC_URL = 'https://app.leg.wa.gov/WAC/';
+
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, 'fixtures/wac', name), 'utf8');
+}
+
+test('parseTitleLinks reads title numbers and names', () => {
+  assert.deepEqual(parseTitleLinks(fixture('titles.html'), WAC_URL), [
+    { num: '1', name: 'Administrative Hearings, Office of', url: `${WAC_URL}default.aspx?cite=1` },
+    { num: '132A', name: 'Peninsula Community College', url: `${WAC_URL}default.aspx?cite=132A` },
+    { num: '296', name: 'Labor and Industries, Department of', url: `${WAC_URL}default.aspx?cite=296` }
+  ]);
+});
+
+test('parseChapterLinks keeps only chapters of the title and skips PDFs', () => {
+  assert.deepEqual(parseChapterLinks(fixture('title-296.html'), '296', WAC_URL), [
+    { num: '296-24', name: 'General safety and health standards.', url: `${WAC_URL}default.aspx?cite=296-24` },
+    { num: '296-150', name: 'Factory-assembled structures.', url: `${WAC_URL}default.aspx?cite=296-150` }
+  ]);
+});
+
+test('parseSectionLinks handles relative and absolute links', () => {
+  const links = parseSectionLinks(fixture('chapter-296-24.html'), '296-24', WAC_URL);
+  assert.deepEqual(links.map(l => l.num), ['296-24-12001', '296-24-12005', '296-24-130']);
+  assert.equal(links[1].name, 'Definitions.');
+  assert.equal(links[2].url, 'https://app.leg.wa.gov/WAC/default.aspx?cite=296-24-130');
+});
+
+test('parseWACDate expands two-digit years', () => {
+  assert.equal(parseWACDate('8/21/20'), '2020-08-21');
+  assert.equal(parseWACDate('12/1/78'), '1978-12-01');
+  assert.equal(parseWACDate('1/5/2001'), '2001-01-05');
+  assert.equal(parseWACDate('not a date'), undefined);
+});
+
+test('parseSectionPage extracts heading, text and latest effective date', () => {
+  const parsed = parseSectionPage(fixture('section-296-24-12005.html'), '296-24-12005');
+
+  assert.equal(parsed.sectionName, 'Definitions.');
+  assert.equal(parsed.effectiveDate, '2020-08-21');
+  assert.equal(parsed.fullText.split('\n')[0], 'The following definitions apply to WAC 296-24-12001 through 296-24-12015:');
+  assert.match(parsed.fullText, /^\(1\) "Approved" means/m);
+  assert.doesNotMatch(parsed.fullText, /Home|Dispositions|tracking|Washington State Legislature|Statutory Authority/);
+  assert.match(parsed.historyNote!, /^Statutory Authority: RCW 49\.17\.010/);
+  assert.deepEqual(parsed.subsections.map(s => s.label), ['1', '2']);
+});
+
+test('saveSection fills every WAC column', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'wac-scraper-'));
+  const dbPath = join(dir, 'test.db');
+  initializeDatabase(dbPath).close();
+
+  const scraper = new WACScraper({ dbPath });
+  const parsed = parseSectionPage(fixture('section-296-24-12005.html'), '296-24-12005');
+  scraper.saveSection({
+    citation: '296-24-12005',
+    titleNum: '296',
+    chapterNum: '296-24',
+    sectionNum: '12005',
+    titleName: 'Labor and Industries, Department of',
+    chapterName: 'General safety and health standards.',
+    ...parsed
+  });
+  scraper.close();
+
+  const db = initializeDatabase(dbPath);
+  const row = db.prepare(`
+    SELECT citation, title_num, chapter_num, section_num, title_name, chapter_name,
+           section_name, effective_date, json_array_length(subsections) as subsection_count,
+           history_note IS NOT NULL as has_history
+    FROM wac
+  `).get();
+  const hits = db.prepare(`SELECT COUNT(*) as count FROM wac_fts WHERE wac_fts MATCH 'egress'`).get() as any;
+  db.close();
+  rmSync(dir, { recursive: true, force: true });
+
+  assert.deepEqual(row, {
+    citation: '296-24-12005',
+    title_num: '296',
+    chapter_num: '296-24',
+    section_num: '12005',
+    title_name: 'Labor and Industries, Department of',
+    chapter_name: 'General safety and health standards.',
+    section_name: 'Definitions.',
+    effective_date: '2020-08-21',
+    subsection_count: 2,
+    has_history: 1
+  });
+  assert.equal(hits.count, 1);
+});
+
+test('WACScraper writes the recorded sections and records pages it could not fetch', async t => {
+  t.mock.method(console, 'log', () => {});
+  t.mock.method(console, 'error', () => {});
+  const dir = mkdtempSync(join(tmpdir(), 'wac-scraper-'));
+  const dbPath = join(dir, 'test.db');
+  initializeDatabase(dbPath).close();
+
+  const server = await startFixtureServer(WAC_ROUTES);
+  try {
+    await new WACScraper({ dbPath, wacUrl: `${server.url}/WAC/`, delayMs: 0 }).scrapeAllTitles();
+  } finally {
+    await server.close();
+  }
+
+  const db = new Database(dbPath, { readonly: true });
+  const rows = db.prepare(`
+    SELECT citation, title_num, chapter_num, section_num, title_name, chapter_name, section_name,
+           full_text, subsections, history_note, notes, status, status_target, status_note, effective_date
+    FROM wac ORDER BY citation
+  `).all();
+  const progress = db.prepare(`
+    SELECT title_num, chapter_num, status, error_message FROM scraper_progress WHERE type = 'WAC' ORDER BY title_num, chapter_num
+  `).all();
+  db.close();
+  rmSync(dir, { recursive: true, force: true });
+
+  // The titles, chapter and sections without a saved page are 404s
+  assert.deepEqual([...server.requests].sort(), [
+    '/WAC/',
+    '/WAC/default.aspx?cite=1',
+    '/WAC/default.aspx?cite=132A',
+    '/WAC/default.aspx?cite=296',
+    '/WAC/default.aspx?cite=296-150',
+    '/WAC/default.aspx?cite=296-24',
+    '/WAC/default.aspx?cite=296-24-12001',
+    '/WAC/default.aspx?cite=296-24-12005',
+    '/WAC/default.aspx?cite=296-24-130'
+  ]);
+
+  const parsed = parseSectionPage(fixture('section-296-24-12005.html'), '296-24-12005');
+  assert.deepEqual(rows, [{
+    citation: '296-24-12005',
+    title_num: '296',
+    chapter_num: '296-24',
+    section_num: '12005',
+    title_name: 'Labor and Industries, Department of',
+    chapter_name: 'General safety and health standards.',
+    section_name: 'Definitions.',
+    full_text: parsed.fullText,
+    subsections: JSON.stringify(parsed.subsections),
+    history_note: parsed.historyNote,
+    notes: null,
+    status: 'active',
+    status_target: null,
+    status_note: null,
+    effective_date: '2020-08-21'
+  }]);
+
+  assert.deepEqual(progress, [
+    { title_num: '1', chapter_num: '', status: 'error', error_message: 'Request failed with status code 404' },
+    { title_num: '132A', chapter_num: '', status: 'error', error_message: 'Request failed with status code 404' },
+    { title_num: '296', chapter_num: '', status: 'error', error_message: '2 chapters failed' },
+    { title_num: '296', chapter_num: '296-150', status: 'error', error_message: 'Request failed with status code 404' },
+    { title_num: '296', chapter_num: '296-24', status: 'error', error_message: '2 of 3 sections failed' }
+  ]);
+});